@@ -1,13 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { AppSidebar } from './components/AppSidebar';
 import { FileUploader } from './components/FileUploader';
 import { DriveSelector } from './components/DriveSelector';
 import { ReviewTable } from './components/ReviewTable';
 import { DashboardStats } from './components/DashboardStats';
-import { analyzeFilesBatch } from './services/geminiService';
-import { ensureFolderPath, applyFileUpdate } from './services/driveService';
-import { AppState, DriveFile, ProcessedFile, AnalysisResult } from './types';
-import { Loader2, Sparkles, CheckCircle2, Play, HardDrive, Key, ChevronRight, LogOut, Info, UploadCloud, RefreshCw } from 'lucide-react';
+import { SyncJournalPanel } from './components/SyncJournalPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ResumeSessionBanner } from './components/ResumeSessionBanner';
+import { ReconnectBanner } from './components/ReconnectBanner';
+import { AuditLogPanel } from './components/AuditLogPanel';
+import { analyzeFilesInChunks, BatchAnalysisOutcome } from './services/geminiService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { getProviderLabel, getModelName } from './services/llmProvider';
+import { PROMPT_VERSION } from './services/geminiService';
+import { buildAppProperties, buildDescriptionSummary, mergeDescription } from './services/classificationMetadata';
+import { PlanChange } from './services/planSheetService';
+import { appendAuditEntries, buildSyncAuditEntry, buildSharingAuditEntry, buildRevertAuditEntry } from './services/auditLogService';
+import { AUDITED_SENSITIVITIES, assessSharing } from './services/sharingAuditService';
+import { checkNameSafety, findNameConflicts } from './services/nameSafety';
+import { ensureFolderPath, applyFileUpdates, FileUpdateRequest, getUpdateBlocker, getAccountEmail, isDriveConnected, initGapi, initGis, requestAccessToken, listFilePermissions, applySharingRemediation, clearFolderCache, getFolderIndex, onReconnectNeeded } from './services/driveService';
+import { createJournal, saveJournal, updateJournalEntry, getLatestJournal, getJournal, revertJournal } from './services/journalService';
+import { loadSession, saveSession, clearSession } from './services/sessionStore';
+import { AppState, DriveFile, ProcessedFile, AnalysisResult, SyncJournal, AppSettings, PersistedSession, SharingAudit, AppliedPermissionChange, NameConflict, FolderIndex, AuditLogEntry } from './types';
+import { Loader2, Sparkles, CheckCircle2, Play, HardDrive, Key, ChevronRight, LogOut, Info, UploadCloud, RefreshCw, Settings, ScrollText } from 'lucide-react';
 
 export default function App() {
   const [apiKey, setApiKey] = useState<string | null>(null);
@@ -18,10 +33,31 @@ export default function App() {
   const [sourceMode, setSourceMode] = useState<'upload' | 'drive'>('drive'); 
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncProgress, setSyncProgress] = useState({ current: 0, total: 0 });
+  const [lastJournal, setLastJournal] = useState<SyncJournal | null>(() => getLatestJournal());
+  const [isReverting, setIsReverting] = useState(false);
 
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [files, setFiles] = useState<ProcessedFile[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState({ current: 0, total: 0 });
+  const [folderIndex, setFolderIndex] = useState<FolderIndex | null>(null); // Existing folders of the batch's drive
+
+  const [settings, setSettings] = useState<AppSettings>(() => loadSettings());
+  const [showSettings, setShowSettings] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+
+  // A batch saved in IndexedDB by a previous page load, waiting for the user to resume or discard it
+  const [resumableSession, setResumableSession] = useState<PersistedSession | null>(null);
+
+  // Files whose permissions were already requested in this batch
+  const sharingRequested = useRef(new Set<string>());
+
+  // Drive requests that hit an expired token wait until the user clicks Reconnect
+  const [needsReconnect, setNeedsReconnect] = useState(false);
+  useEffect(() => {
+    onReconnectNeeded(setNeedsReconnect);
+    return () => onReconnectNeeded(null);
+  }, []);
 
   // Check for stored session on mount
   useEffect(() => {
@@ -29,9 +65,60 @@ export default function App() {
     if (storedKey) {
       setApiKey(storedKey);
     }
-    setIsLoadingSession(false);
+    loadSession().then(session => {
+      setResumableSession(session);
+      setIsLoadingSession(false);
+    });
   }, []);
 
+  // Persist the active batch so a refresh doesn't lose analysis results, edits or sync progress
+  useEffect(() => {
+    if (resumableSession || files.length === 0) return;
+    saveSession({
+      appState,
+      sourceMode,
+      files,
+      syncInProgress: isSyncing,
+      journalId: isSyncing ? lastJournal?.id : undefined
+    });
+  }, [files, appState, sourceMode, isSyncing]);
+
+  // Sensitive Drive files get their sharing checked as soon as they reach review
+  useEffect(() => {
+    if (appState !== AppState.REVIEW || sourceMode !== 'drive' || !isDriveConnected()) return;
+    const toAudit = files.filter(f =>
+      !f.sharing && f.status === 'pending' && f.analysis &&
+      AUDITED_SENSITIVITIES.includes(f.analysis.sensitivity) && !sharingRequested.current.has(f.id)
+    );
+    if (toAudit.length === 0) return;
+    toAudit.forEach(f => sharingRequested.current.add(f.id));
+    auditSharing(toAudit);
+  }, [files, appState, sourceMode]);
+
+  const auditSharing = async (toAudit: ProcessedFile[]) => {
+    let account: string;
+    try {
+      account = await getAccountEmail();
+    } catch (err: any) {
+      // Without the account every grant would look external, so nothing is assessed
+      console.warn("Could not read the signed-in account", err);
+      const sharing: SharingAudit = { permissions: [], risks: {}, remediations: [], error: 'Signed-in account unknown' };
+      const ids = new Set(toAudit.map(f => f.id));
+      setFiles(prev => prev.map(f => ids.has(f.id) ? { ...f, sharing } : f));
+      return;
+    }
+    for (const file of toAudit) {
+      let sharing: SharingAudit;
+      try {
+        sharing = assessSharing(await listFilePermissions(file.id), account);
+      } catch (err: any) {
+        console.warn("Could not read permissions for", file.name, err);
+        sharing = { permissions: [], risks: {}, remediations: [], error: err?.result?.error?.message || err?.message || 'Permissions unavailable' };
+      }
+      setFiles(prev => prev.map(f => f.id === file.id ? { ...f, sharing } : f));
+    }
+  };
+
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
     if (inputKey.trim().length > 10) {
@@ -47,29 +134,121 @@ export default function App() {
     setInputKey('');
     setFiles([]);
     setAppState(AppState.IDLE);
+    clearSession();
+  };
+
+  // Merges one chunk's results into state as soon as it arrives, so it is persisted immediately
+  const applyAnalysisOutcome = (outcome: BatchAnalysisOutcome) => {
+    setFiles(prev => prev.map(f => {
+      const result = outcome.results.find(r => r.fileId === f.id);
+      if (result) return { ...f, analysis: result };
+      const failure = outcome.failed.find(x => x.fileId === f.id);
+      return failure ? { ...f, status: 'error', error: failure.error } : f;
+    }));
   };
 
   const handleFilesSelected = async (selectedFiles: DriveFile[]) => {
-    setFiles(selectedFiles.map(f => ({ ...f, status: 'pending' })));
+    // Files an earlier sync already classified keep their decision unless the user wants them re-analyzed
+    const toScan = settings.metadata.skipPreviouslyClassified
+      ? selectedFiles.filter(f => !f.previousClassification)
+      : selectedFiles;
+    if (toScan.length === 0) {
+      setError(`All ${selectedFiles.length} selected files were classified before. Turn off "Skip previously classified files" in Settings to analyze them again.`);
+      return;
+    }
+
+    // The readers have already redacted the files
+    setResumableSession(null);
+    sharingRequested.current.clear();
+    setFiles(toScan.map(f => ({ ...f, status: 'pending' })));
+    await runAnalysis(toScan, false);
+  };
+
+  /**
+   * Analyzes the given files in chunks.
+   * @param hasPriorResults True when resuming a batch that already holds some results,
+   * in which case the review screen is shown even if nothing new succeeds.
+   * @param mode Source of the files; passed in because a resumed session sets it in the same render
+   */
+  const runAnalysis = async (toAnalyze: DriveFile[], hasPriorResults: boolean, mode: 'upload' | 'drive' = sourceMode) => {
     setAppState(AppState.ANALYZING);
     setError(null);
 
+    setAnalysisProgress({ current: 0, total: toAnalyze.length });
+
     try {
       if (!apiKey) throw new Error("Session expired. Please sign in again.");
-      
-      const analysisResults = await analyzeFilesBatch(selectedFiles, apiKey);
-      setFiles(prev => prev.map(f => {
-        const result = analysisResults.find(r => r.fileId === f.id);
-        return result ? { ...f, analysis: result } : f;
-      }));
+
+      // Without the index the model still works, it just cannot reuse existing folders
+      let index: FolderIndex = { paths: [] };
+      if (mode === 'drive') {
+        index = await getFolderIndex(toAnalyze[0]?.driveId).catch((err): FolderIndex => {
+          console.warn("Could not index existing folders", err);
+          return { paths: [] };
+        });
+      }
+      setFolderIndex(mode === 'drive' ? index : null);
+
+      const { results, failed } = await analyzeFilesInChunks(
+        toAnalyze,
+        apiKey,
+        settings,
+        (current, total, chunkOutcome) => {
+          setAnalysisProgress({ current, total });
+          applyAnalysisOutcome(chunkOutcome);
+        },
+        index.paths
+      );
+
+      if (results.length === 0 && !hasPriorResults) {
+        throw new Error(failed[0]?.error || "No analysis results returned");
+      }
+
+      if (failed.length > 0) {
+        setError(`${failed.length} of ${toAnalyze.length} files could not be analyzed and are marked as failed.`);
+      }
       setAppState(AppState.REVIEW);
-    } catch (err) {
+    } catch (err: any) {
       console.error(err);
-      setError("Gemini failed to analyze the files. Please ensure your API key is valid.");
+      setError(`Analysis failed: ${err?.message || String(err)}`);
+      // A resumed batch keeps the results it already has; only a fresh batch is thrown away
+      if (hasPriorResults) {
+        setAppState(AppState.REVIEW);
+        return;
+      }
+      setFiles([]);
       setAppState(AppState.IDLE);
+      clearSession();
+    }
+  };
+
+  const handleResumeSession = async () => {
+    const session = resumableSession;
+    if (!session) return;
+
+    setResumableSession(null);
+    setSourceMode(session.sourceMode);
+    setFiles(session.files);
+
+    if (session.appState === AppState.ANALYZING) {
+      const remaining = session.files.filter(f => !f.analysis && f.status === 'pending');
+      await runAnalysis(remaining, remaining.length < session.files.length, session.sourceMode);
+      return;
+    }
+
+    setAppState(session.appState === AppState.COMPLETED ? AppState.REVIEW : session.appState);
+
+    if (session.syncInProgress) {
+      const journal = session.journalId ? getJournal(session.journalId) : null;
+      await handleSyncToDrive(session.files, journal || undefined, session.sourceMode);
     }
   };
 
+  const handleDiscardSession = () => {
+    setResumableSession(null);
+    clearSession();
+  };
+
   const handleApprove = (id: string) => {
     setFiles(prev => prev.map(f => f.id === id ? { ...f, status: 'approved' } : f));
   };
@@ -82,54 +261,220 @@ export default function App() {
     setFiles(prev => prev.map(f => f.status === 'pending' ? { ...f, status: 'approved' } : f));
   };
 
+  const handleToggleRemediation = (id: string, permissionId: string) => {
+    setFiles(prev => prev.map(f => f.id === id && f.sharing ? {
+      ...f,
+      sharing: {
+        ...f.sharing,
+        remediations: f.sharing.remediations.map(r => r.permissionId === permissionId ? { ...r, enabled: !r.enabled } : r)
+      }
+    } : f));
+  };
+
   const handleUpdateAnalysis = (id: string, updates: Partial<AnalysisResult>) => {
     setFiles(prev => prev.map(f => {
       if (f.id === id && f.analysis) {
         return {
           ...f,
-          analysis: { ...f.analysis, ...updates }
+          analysis: { ...f.analysis, ...updates, edited: true }
         };
       }
       return f;
     }));
   };
 
-  const handleSyncToDrive = async () => {
-    if (sourceMode === 'upload') {
+  /**
+   * Applies decisions made in an exported spreadsheet: edits go through handleUpdateAnalysis,
+   * approve / reject flags through the status setters.
+   */
+  const handleImportPlan = (changes: PlanChange[]) => {
+    for (const change of changes) {
+      if (Object.keys(change.updates).length > 0) handleUpdateAnalysis(change.fileId, change.updates);
+      if (change.status === 'approved') handleApprove(change.fileId);
+      else if (change.status === 'rejected') handleReject(change.fileId);
+      else if (change.status === 'pending') {
+        setFiles(prev => prev.map(f => f.id === change.fileId ? { ...f, status: 'pending' } : f));
+      }
+    }
+  };
+
+  /**
+   * Applies every approved file to Drive. Files already synced are skipped, so calling this
+   * again after an interruption continues from the first file that is not synced yet.
+   * @param resumeJournal Journal of the interrupted run, reused so the whole run can still be reverted at once
+   * @param mode Source of the files; passed in because a resumed session sets it in the same render
+   */
+  const handleSyncToDrive = async (
+    batch: ProcessedFile[] = files,
+    resumeJournal?: SyncJournal,
+    mode: 'upload' | 'drive' = sourceMode
+  ) => {
+    if (mode === 'upload') {
         alert("Cannot sync uploaded local files back to Google Drive directly. This feature works with 'Connect Drive' mode.");
         return;
     }
 
-    const approvedFiles = files.filter(f => f.status === 'approved');
+    const approvedFiles = batch.filter(f => f.status === 'approved');
     if (approvedFiles.length === 0) return;
 
+    if (!isDriveConnected()) {
+        // After a page reload Drive has to be reconnected with the stored Client ID before syncing.
+        // Access was granted before, so this usually completes without showing the consent screen.
+        try {
+            await initGapi();
+            await initGis(localStorage.getItem('google_client_id') || '');
+            await requestAccessToken('');
+        } catch (err) {
+            console.error(err);
+            setError("Could not reconnect to Google Drive. Reconnect and use 'Apply Changes to Drive' to continue.");
+            return;
+        }
+    }
+
+    // Unsafe names and name collisions send their files back to review instead of reaching Drive.
+    // A resumed run was checked before it started.
+    if (!resumeJournal) {
+        setError(null);
+        let conflicts: Record<string, NameConflict>;
+        try {
+            conflicts = await findNameConflicts(approvedFiles);
+        } catch (err: any) {
+            console.error(err);
+            setError(`Could not check the new names against Drive: ${err?.result?.error?.message || err?.message || err}`);
+            return;
+        }
+        const blockedIds = new Set(approvedFiles
+            .filter(f => conflicts[f.id] || (f.analysis && checkNameSafety(f, f.analysis.suggestedName).length > 0))
+            .map(f => f.id));
+        setFiles(prev => prev.map(f => approvedFiles.some(a => a.id === f.id) ? {
+            ...f,
+            nameConflict: conflicts[f.id],
+            status: blockedIds.has(f.id) ? 'pending' : f.status
+        } : f));
+        if (blockedIds.size > 0) {
+            setError(`${blockedIds.size} files need a different name before syncing. They are back in review with a suggested fix.`);
+            return;
+        }
+    }
+
+    // Write the journal before touching Drive so the batch can always be reverted
+    let journal = resumeJournal || createJournal(approvedFiles);
+    journal = { ...journal, status: 'in_progress' };
+    saveJournal(journal);
+    setLastJournal(journal);
+
     setIsSyncing(true);
     setSyncProgress({ current: 0, total: approvedFiles.length });
+    const account = await getAccountEmail().catch(() => 'unknown');
+    const advance = () => setSyncProgress(prev => ({ ...prev, current: prev.current + 1 }));
+
+    const markFailed = (fileId: string, err: any) => {
+        journal = updateJournalEntry(journal, fileId, { status: 'failed' });
+        const message = err?.result?.error?.message || err?.message || 'Drive rejected the update';
+        setFiles(prev => prev.map(f => f.id === fileId ? { ...f, status: 'error', error: message } : f));
+        advance();
+    };
+
+    // Pass 1: resolve every target folder (folder lookups and creation depend on each other, so they run in order)
+    const updates: FileUpdateRequest[] = [];
+    for (const file of approvedFiles) {
+        if (!file.analysis) {
+            advance();
+            continue;
+        }
 
-    for (let i = 0; i < approvedFiles.length; i++) {
-        const file = approvedFiles[i];
-        if (!file.analysis) continue;
+        // Applied to Drive before the interruption, but the status change was never saved
+        const journalEntry = journal.entries.find(e => e.fileId === file.id);
+        if (journalEntry?.status === 'applied') {
+            setFiles(prev => prev.map(f => f.id === file.id ? { ...f, status: 'synced' } : f));
+            advance();
+            continue;
+        }
 
         try {
-            // 1. Resolve path to a folder ID
+            // Resolve path to a folder ID inside the file's own drive, recording every folder we create
             let targetFolderId = undefined;
             if (file.analysis.suggestedPath && file.analysis.suggestedPath !== '/' && file.analysis.suggestedPath !== '.') {
-                targetFolderId = await ensureFolderPath(file.analysis.suggestedPath);
+                targetFolderId = await ensureFolderPath(file.analysis.suggestedPath, (folder) => {
+                    journal = { ...journal, createdFolders: [...journal.createdFolders, folder] };
+                    saveJournal(journal);
+                }, file.driveId);
             }
-
-            // 2. Apply updates
-            await applyFileUpdate(file.id, file.analysis.suggestedName, file.parents, targetFolderId);
-
-            // 3. Mark synced
-            setFiles(prev => prev.map(f => f.id === file.id ? { ...f, status: 'synced' } : f));
-
+            const blocker = getUpdateBlocker(file, file.analysis.suggestedName, targetFolderId);
+            if (blocker) throw new Error(blocker);
+            const { writeAppProperties, writeDescription } = settings.metadata;
+            journal = updateJournalEntry(journal, file.id, {
+                targetFolderId,
+                wroteAppProperties: writeAppProperties,
+                wroteDescription: writeDescription
+            });
+
+            updates.push({
+                fileId: file.id,
+                newName: file.analysis.suggestedName,
+                currentParents: file.parents,
+                targetFolderId,
+                metadata: {
+                    appProperties: writeAppProperties
+                        ? buildAppProperties(file.analysis, getModelName(settings.provider), PROMPT_VERSION)
+                        : undefined,
+                    description: writeDescription
+                        ? mergeDescription(file.description, buildDescriptionSummary(file.analysis))
+                        : undefined
+                }
+            });
         } catch (err) {
             console.error("Sync error for file", file.name, err);
-            setFiles(prev => prev.map(f => f.id === file.id ? { ...f, status: 'error' } : f));
+            markFailed(file.id, err);
         }
-        setSyncProgress(prev => ({ ...prev, current: i + 1 }));
     }
 
+    // Pass 2: apply renames and moves in batches; transient failures are retried before a file is marked failed
+    const syncAuditEntries: AuditLogEntry[] = [];
+    await applyFileUpdates(updates, (fileId, err) => {
+        if (err) {
+            console.error("Sync error for file", fileId, err);
+            markFailed(fileId, err);
+            return;
+        }
+        journal = updateJournalEntry(journal, fileId, { status: 'applied', changedAt: Date.now() });
+        const file = approvedFiles.find(f => f.id === fileId)!;
+        const target = updates.find(u => u.fileId === fileId)?.targetFolderId;
+        syncAuditEntries.push(buildSyncAuditEntry(file, account, journal.id, target));
+        setFiles(prev => prev.map(f => f.id === fileId ? { ...f, status: 'synced', error: undefined } : f));
+        advance();
+    });
+    await appendAuditEntries(syncAuditEntries);
+
+    // Pass 3: sharing remediations of applied files. Changes already in the journal are skipped, so a resumed run continues where it stopped.
+    for (const file of approvedFiles) {
+        const entry = journal.entries.find(e => e.fileId === file.id);
+        const done = entry?.permissionChanges || [];
+        const pending = (file.sharing?.remediations || [])
+            .filter(r => r.enabled && !done.some(c => c.original.id === r.permissionId));
+        if (entry?.status !== 'applied' || pending.length === 0) continue;
+
+        const applied: AppliedPermissionChange[] = [];
+        try {
+            for (const remediation of pending) {
+                applied.push(await applySharingRemediation(file.id, remediation));
+                journal = updateJournalEntry(journal, file.id, { permissionChanges: [...done, ...applied] });
+            }
+        } catch (err: any) {
+            console.error("Sharing change failed for file", file.name, err);
+            const message = err?.result?.error?.message || err?.message || 'Drive rejected the change';
+            setFiles(prev => prev.map(f => f.id === file.id ? { ...f, status: 'error', error: `Could not change sharing: ${message}` } : f));
+        }
+        if (applied.length > 0) await appendAuditEntries([buildSharingAuditEntry(file, account, journal.id, applied)]);
+    }
+
+    // Renamed or moved folders invalidate the cached paths below them
+    if (approvedFiles.some(f => f.isFolder)) clearFolderCache();
+
+    journal = { ...journal, status: 'completed' };
+    saveJournal(journal);
+    setLastJournal(journal);
+
     setIsSyncing(false);
     
     // Check if we are done
@@ -137,13 +482,50 @@ export default function App() {
          if (confirm("Sync Complete! Start a new batch?")) {
              setFiles([]);
              setAppState(AppState.IDLE);
+             clearSession();
          }
     }, 500);
   };
 
+  const handleSaveSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+    setShowSettings(false);
+  };
+
+  const handleRevertBatch = async () => {
+    if (!lastJournal) return;
+    if (!confirm("Restore the original names and locations of every file changed by this sync?")) return;
+
+    setIsReverting(true);
+    const applied = lastJournal.entries.filter(e => e.status === 'applied');
+    setSyncProgress({ current: 0, total: applied.length });
+
+    try {
+      const result = await revertJournal(lastJournal, (current, total) => setSyncProgress({ current, total }));
+      setLastJournal(result);
+
+      const account = await getAccountEmail().catch(() => 'unknown');
+      const revertedNow = result.entries.filter(e => e.status === 'reverted' && applied.some(a => a.fileId === e.fileId));
+      await appendAuditEntries(revertedNow.map(e => buildRevertAuditEntry(e, account, result.id)));
+
+      // Files restored in the current batch go back to review; restored grants have new ids, so sharing is read again
+      const revertedIds = new Set(result.entries.filter(e => e.status === 'reverted').map(e => e.fileId));
+      revertedIds.forEach(id => sharingRequested.current.delete(id));
+      setFiles(prev => prev.map(f => revertedIds.has(f.id) ? { ...f, status: 'pending', sharing: undefined } : f));
+
+      if (result.status === 'revert_failed') {
+        setError("Some files could not be reverted. Check the browser console for details.");
+      }
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
   const handleReset = () => {
     setFiles([]);
     setAppState(AppState.IDLE);
+    clearSession();
   };
 
   // Loading Screen
@@ -212,20 +594,20 @@ export default function App() {
 
   return (
     <div className="flex min-h-screen bg-slate-50 font-sans text-slate-900">
-      <AppSidebar />
+      <AppSidebar taxonomy={settings.taxonomy} modelLabel={getProviderLabel(settings.provider)} />
       
       <main className="flex-1 flex flex-col h-screen overflow-hidden relative">
         {/* Sync Overlay */}
-        {isSyncing && (
+        {(isSyncing || isReverting) && (
             <div className="absolute inset-0 bg-white/80 backdrop-blur-sm z-50 flex items-center justify-center">
                 <div className="bg-white p-8 rounded-2xl shadow-2xl border border-slate-200 max-w-sm w-full text-center">
                     <RefreshCw className="w-10 h-10 text-indigo-600 animate-spin mx-auto mb-4" />
-                    <h3 className="text-lg font-bold text-slate-900">Applying Changes to Drive</h3>
-                    <p className="text-sm text-slate-500 mb-6">Creating folders and moving files...</p>
+                    <h3 className="text-lg font-bold text-slate-900">{isReverting ? 'Reverting Batch' : 'Applying Changes to Drive'}</h3>
+                    <p className="text-sm text-slate-500 mb-6">{isReverting ? 'Restoring names and original folders...' : 'Creating folders and moving files...'}</p>
                     <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden">
                         <div 
                             className="bg-indigo-600 h-full transition-all duration-300" 
-                            style={{width: `${(syncProgress.current / syncProgress.total) * 100}%`}}
+                            style={{width: `${syncProgress.total > 0 ? (syncProgress.current / syncProgress.total) * 100 : 0}%`}}
                         ></div>
                     </div>
                     <div className="mt-2 text-xs text-indigo-600 font-mono">
@@ -235,6 +617,11 @@ export default function App() {
             </div>
         )}
 
+        {showAuditLog && <AuditLogPanel onClose={() => setShowAuditLog(false)} />}
+        {showSettings && (
+          <SettingsPanel settings={settings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />
+        )}
+
         {/* Top Bar */}
         <header className="h-16 bg-white border-b border-slate-200 flex items-center justify-between px-8 flex-shrink-0">
           <div className="flex items-center gap-4">
@@ -253,6 +640,21 @@ export default function App() {
                 </span>
              </div>
              
+             <button
+               onClick={() => setShowAuditLog(true)}
+               className="flex items-center gap-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg transition-colors text-xs font-medium"
+               title="Audit Log"
+             >
+                <ScrollText size={14} /> Audit Log
+             </button>
+             <button 
+               onClick={() => setShowSettings(true)}
+               className="flex items-center gap-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg transition-colors text-xs font-medium"
+               title="Settings"
+             >
+                <Settings size={14} /> Settings
+             </button>
+
              <button 
                onClick={handleLogout} 
                className="flex items-center gap-2 text-slate-400 hover:text-red-600 hover:bg-red-50 px-3 py-1.5 rounded-lg transition-colors text-xs font-medium"
@@ -267,7 +669,9 @@ export default function App() {
         <div className="flex-1 overflow-y-auto p-8">
           <div className="max-w-6xl mx-auto h-full flex flex-col">
             
-            <DashboardStats files={files} appState={appState} />
+            <DashboardStats files={files} appState={appState} taxonomy={settings.taxonomy} />
+
+            {needsReconnect && <ReconnectBanner />}
 
             {/* Error Message */}
             {error && (
@@ -276,9 +680,22 @@ export default function App() {
               </div>
             )}
 
+            {/* Undo Journal */}
+            {lastJournal && sourceMode === 'drive' && (appState === AppState.IDLE || appState === AppState.REVIEW) && (
+              <SyncJournalPanel journal={lastJournal} isReverting={isReverting} onRevert={handleRevertBatch} />
+            )}
+
             {/* View: IDLE */}
             {appState === AppState.IDLE && (
               <div className="flex-1 flex flex-col justify-center pb-20">
+                {resumableSession && (
+                  <ResumeSessionBanner
+                    session={resumableSession}
+                    onResume={handleResumeSession}
+                    onDiscard={handleDiscardSession}
+                  />
+                )}
+
                 <div className="text-center mb-8">
                   <h1 className="text-3xl font-bold text-slate-900 mb-3">Drive Hygiene: Critical</h1>
                   <p className="text-slate-500 max-w-lg mx-auto">
@@ -318,8 +735,13 @@ export default function App() {
                     <Sparkles className="text-blue-600 w-8 h-8 animate-pulse" />
                   </div>
                 </div>
-                <h3 className="mt-8 text-xl font-bold text-slate-800">Gemini is thinking...</h3>
+                <h3 className="mt-8 text-xl font-bold text-slate-800">{settings.provider.provider === 'gemini' ? 'Gemini' : 'The model'} is thinking...</h3>
                 <p className="text-slate-500 mt-2">Reading contents, determining taxonomy, and humanizing filenames.</p>
+                {analysisProgress.total > 0 && (
+                  <p className="mt-2 text-xs text-blue-600 font-mono">
+                    {analysisProgress.current} / {analysisProgress.total} files analyzed
+                  </p>
+                )}
                 
                 <div className="mt-8 max-w-md w-full bg-white rounded-lg p-4 border border-slate-100 shadow-sm space-y-3">
                   <div className="flex items-center gap-3 text-sm text-slate-600">
@@ -340,10 +762,15 @@ export default function App() {
               <div className="flex-1 flex flex-col min-h-0">
                 <ReviewTable 
                   files={files} 
+                  taxonomy={settings.taxonomy}
                   onApprove={handleApprove} 
                   onReject={handleReject} 
                   onApproveAll={handleApproveAll}
                   onUpdate={handleUpdateAnalysis}
+                  onImportPlan={handleImportPlan}
+                  onToggleRemediation={handleToggleRemediation}
+                  folderIndex={folderIndex}
+                  modelLabel={getProviderLabel(settings.provider)}
                 />
                 <div className="mt-6 flex justify-between items-center bg-slate-100 p-4 rounded-lg">
                    <p className="text-sm text-slate-500">
@@ -353,7 +780,7 @@ export default function App() {
                       {/* Standard Finish Button */}
                       {files.every(f => f.status !== 'pending') && sourceMode === 'drive' && (
                         <button 
-                          onClick={handleSyncToDrive}
+                          onClick={() => handleSyncToDrive()}
                           className="bg-emerald-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-emerald-700 transition-colors flex items-center gap-2 shadow-lg shadow-emerald-100"
                         >
                           <RefreshCw size={18} /> Apply Changes to Drive
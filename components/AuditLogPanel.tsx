@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, ScrollText, Download, FileText, Search, UserPen, Undo2, RefreshCw, Link2Off } from 'lucide-react';
+import { AuditLogEntry } from '../types';
+import { loadAuditLog, exportAuditJson, buildAuditReport } from '../services/auditLogService';
+import { downloadFile } from '../services/fileDownload';
+
+interface Props {
+  onClose: () => void;
+}
+
+export const AuditLogPanel: React.FC<Props> = ({ onClose }) => {
+  const [entries, setEntries] = useState<AuditLogEntry[] | null>(null);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    loadAuditLog().then(setEntries);
+  }, []);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!entries || !q) return entries || [];
+    return entries.filter(e =>
+      [e.oldName, e.newName, e.newPath, e.category, e.account, e.fileId, e.sensitivity]
+        .some(v => v?.toLowerCase().includes(q))
+    );
+  }, [entries, query]);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl border border-slate-200 max-w-4xl w-full max-h-full flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <ScrollText size={18} className="text-indigo-600" /> Audit Log
+            {entries && <span className="text-xs font-normal text-slate-400">{entries.length} entries</span>}
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-3">
+          <div className="flex-1 relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Filter by name, path, category or account"
+              className="w-full pl-8 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <button
+            onClick={() => downloadFile(exportAuditJson(visible), `audit-log-${stamp}.json`, 'application/json')}
+            disabled={visible.length === 0}
+            className="flex items-center gap-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 px-3 py-2 rounded-lg disabled:opacity-40"
+          >
+            <Download size={12} /> JSON
+          </button>
+          <button
+            onClick={() => downloadFile(buildAuditReport(visible), `change-report-${stamp}.txt`, 'text/plain;charset=utf-8')}
+            disabled={visible.length === 0}
+            className="flex items-center gap-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 px-3 py-2 rounded-lg disabled:opacity-40"
+          >
+            <FileText size={12} /> Change Report
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {entries === null ? (
+            <div className="p-12 flex justify-center text-slate-400">
+              <RefreshCw size={20} className="animate-spin" />
+            </div>
+          ) : visible.length === 0 ? (
+            <div className="p-12 text-center text-sm text-slate-400">
+              {entries.length === 0 ? "No changes have been applied to Drive yet." : "No entries match the filter."}
+            </div>
+          ) : visible.map(entry => (
+            <div key={entry.seq} className="px-4 py-3 text-xs">
+              <div className="flex justify-between items-center mb-1">
+                <div className="flex items-center gap-2 text-slate-500">
+                  {entry.action === 'revert' ? (
+                    <span className="flex items-center gap-1 font-bold text-amber-700"><Undo2 size={12} /> REVERTED</span>
+                  ) : entry.action === 'sharing' ? (
+                    <span className="flex items-center gap-1 font-bold text-rose-700"><Link2Off size={12} /> SHARING</span>
+                  ) : (
+                    <span className="font-bold text-green-700">APPLIED</span>
+                  )}
+                  <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                  <span>·</span>
+                  <span>{entry.account}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {entry.humanEdited && (
+                    <span className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">
+                      <UserPen size={10} /> EDITED
+                    </span>
+                  )}
+                  {entry.sensitivity && (
+                    <span className="text-[10px] font-medium text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded">{entry.sensitivity}</span>
+                  )}
+                  {entry.category && (
+                    <span className="text-[10px] font-medium text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded">{entry.category}</span>
+                  )}
+                </div>
+              </div>
+              <div className="text-sm text-slate-700">
+                {entry.oldName !== entry.newName && <span className="text-slate-400 line-through mr-2">{entry.oldName}</span>}
+                {entry.newName}
+              </div>
+              {entry.permissionChanges?.map(change => (
+                <div key={change} className="text-rose-700 mt-0.5">{change}</div>
+              ))}
+              {entry.newPath && <div className="font-mono text-slate-500 mt-0.5">{entry.newPath}</div>}
+              {entry.reasoning && <div className="text-slate-400 italic mt-1 line-clamp-2">"{entry.reasoning}"</div>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,17 @@
 import React from 'react';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
-import { ProcessedFile, FileCategory, AppState } from '../types';
+import { ProcessedFile, AppState, CategoryDefinition } from '../types';
+import { findCategory, getCategoryDisplayName } from '../services/taxonomyService';
+import { CATEGORY_COLORS } from './categoryStyles';
 import { ShieldAlert, ShieldCheck } from 'lucide-react';
 
 interface Props {
   files: ProcessedFile[];
   appState: AppState;
+  taxonomy: CategoryDefinition[];
 }
 
-export const DashboardStats: React.FC<Props> = ({ files, appState }) => {
+export const DashboardStats: React.FC<Props> = ({ files, appState, taxonomy }) => {
   const hasFiles = files.length > 0;
   
   // Calculate stats
@@ -25,12 +28,11 @@ export const DashboardStats: React.FC<Props> = ({ files, appState }) => {
   }, {} as Record<string, number>);
 
   const data = Object.keys(categoryCount).map(key => ({
-    name: key.replace(/^\d+_/, ''),
-    value: categoryCount[key]
+    name: getCategoryDisplayName(key),
+    value: categoryCount[key],
+    color: CATEGORY_COLORS[findCategory(taxonomy, key)?.color || 'gray']?.hex || '#94a3b8'
   }));
 
-  const COLORS = ['#3b82f6', '#10b981', '#10b981', '#ef4444', '#a855f7', '#eab308', '#64748b', '#94a3b8'];
-
   if (appState === AppState.IDLE) {
     return (
        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
@@ -116,7 +118,7 @@ export const DashboardStats: React.FC<Props> = ({ files, appState }) => {
                 dataKey="value"
               >
                 {data.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  <Cell key={`cell-${index}`} fill={entry.color} />
                 ))}
               </Pie>
               <Tooltip 
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { DriveSearchCriteria, MimeTypeGroup } from '../services/driveBackend';
+import { MIME_TYPE_GROUPS } from '../services/driveQuery';
+import { getOrganizedFolderIds } from '../services/journalService';
+
+interface Props {
+  driveName: string;
+  isSearching: boolean;
+  onSearch: (criteria: DriveSearchCriteria) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClass = "text-[10px] font-bold text-slate-500 ml-0.5 mb-0.5 block";
+
+/**
+ * Form that builds a Drive search, e.g. "all PDFs modified before 2022 that I own".
+ */
+export const DriveSearchForm: React.FC<Props> = ({ driveName, isSearching, onSearch, onClose }) => {
+  const [form, setForm] = useState({
+    nameContains: '',
+    fullText: '',
+    mimeGroup: '' as MimeTypeGroup | '',
+    modifiedAfter: '',
+    modifiedBefore: '',
+    owner: '',
+    excludeOrganized: false
+  });
+
+  const update = (updates: Partial<typeof form>) => setForm(prev => ({ ...prev, ...updates }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSearch({
+      nameContains: form.nameContains || undefined,
+      fullText: form.fullText || undefined,
+      mimeGroup: form.mimeGroup || undefined,
+      modifiedAfter: form.modifiedAfter || undefined,
+      modifiedBefore: form.modifiedBefore || undefined,
+      owner: form.owner || undefined,
+      excludeParentIds: form.excludeOrganized ? getOrganizedFolderIds() : undefined
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-3 bg-slate-50 border border-slate-200 rounded-xl space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-semibold text-slate-600">Search in {driveName}</span>
+        <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-700" title="Back to browsing">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>NAME CONTAINS</label>
+          <input type="text" value={form.nameContains} onChange={(e) => update({ nameContains: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>FULL TEXT CONTAINS</label>
+          <input type="text" value={form.fullText} onChange={(e) => update({ fullText: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>TYPE</label>
+          <select value={form.mimeGroup} onChange={(e) => update({ mimeGroup: e.target.value as MimeTypeGroup | '' })} className={inputClass}>
+            <option value="">Any type</option>
+            {(Object.keys(MIME_TYPE_GROUPS) as MimeTypeGroup[]).map(group => (
+              <option key={group} value={group}>{MIME_TYPE_GROUPS[group].label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>OWNER</label>
+          <input type="text" value={form.owner} onChange={(e) => update({ owner: e.target.value })} placeholder="me or an email address" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>MODIFIED AFTER</label>
+          <input type="date" value={form.modifiedAfter} onChange={(e) => update({ modifiedAfter: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>MODIFIED BEFORE</label>
+          <input type="date" value={form.modifiedBefore} onChange={(e) => update({ modifiedBefore: e.target.value })} className={inputClass} />
+        </div>
+      </div>
+      <div className="flex justify-between items-center pt-1">
+        <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={form.excludeOrganized} onChange={(e) => update({ excludeOrganized: e.target.checked })} />
+          Not in any folder I organized
+        </label>
+        <button
+          type="submit"
+          disabled={isSearching}
+          className="flex items-center gap-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg disabled:opacity-50"
+        >
+          <Search size={12} /> {isSearching ? 'Searching...' : 'Search'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -1,7 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import { HardDrive, Search, Folder, FileText, CheckCircle2, ChevronRight, AlertTriangle, RefreshCw, ChevronLeft, Home, LogOut, Info } from 'lucide-react';
-import { initGapi, initGis, requestAccessToken, listDriveFiles, getFileContent } from '../services/driveService';
-import { DriveFile } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { HardDrive, Search, Folder, FileText, CheckCircle2, ChevronRight, AlertTriangle, RefreshCw, ChevronLeft, Home, LogOut, Info, ListPlus, X, FlaskConical } from 'lucide-react';
+import { initGapi, initGis, requestAccessToken, listDriveFiles, listFolderTree, getFileContent, getFileImage, connectDemoDrive, connectGoogleDrive, getDriveBackend, listDrives, disconnectDrive, searchDriveFiles, MAX_SEARCH_RESULTS, summarizeFolder, withParentFolderNames, waitForReauthentication } from '../services/driveService';
+import { isUnauthorizedError } from '../services/requestScheduler';
+import { DriveSearchCriteria } from '../services/driveBackend';
+import { isImageType, isPdfType, needsPdfRender } from '../services/imageService';
+import { readPreviousClassification } from '../services/classificationMetadata';
+import { redactFile } from '../services/piiService';
+import { DriveSearchForm } from './DriveSearchForm';
+import { WatchBar } from './WatchBar';
+import { DriveFile, DriveInfo } from '../types';
 
 interface Props {
   apiKey: string;
@@ -13,30 +20,81 @@ interface FolderStackItem {
   name: string;
 }
 
+const MY_DRIVE: DriveInfo = { id: 'root', name: 'My Drive', isShared: false };
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// List and create calls take the shared drive id; My Drive is addressed without one
+const driveIdOf = (drive: DriveInfo) => drive.isShared ? drive.id : undefined;
+
 export const DriveSelector: React.FC<Props> = ({ apiKey, onFilesSelected }) => {
   // Initialize with persisted ID or Environment variable if available
   const [clientId, setClientId] = useState(() => {
     return localStorage.getItem('google_client_id') || process.env.GOOGLE_CLIENT_ID || '';
   });
   
-  const [isConnected, setIsConnected] = useState(false);
+  // Picks up an already-active demo drive when the selector remounts (e.g. after a new batch)
+  const [isConnected, setIsConnected] = useState(() => getDriveBackend().kind === 'memory');
   const [isConnecting, setIsConnecting] = useState(false);
+  const isDemo = isConnected && getDriveBackend().kind === 'memory';
   
   const [files, setFiles] = useState<any[]>([]);
   const [loadingFiles, setLoadingFiles] = useState(false);
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Selected raw Drive files keyed by id (may span several folders when subtrees are queued)
+  const [selectedFiles, setSelectedFiles] = useState<Map<string, any>>(new Map());
+
+  // Recursive folder crawl state
+  const [crawl, setCrawl] = useState<{ folderName: string; found: number } | null>(null);
+  // Progress while the chosen files and folders are read before analysis
+  const [reading, setReading] = useState<{ done: number; total: number } | null>(null);
+  const crawlController = useRef<AbortController | null>(null);
   
   // Navigation State
+  const [drives, setDrives] = useState<DriveInfo[]>([MY_DRIVE]);
+  const [activeDrive, setActiveDrive] = useState<DriveInfo>(MY_DRIVE);
   const [folderStack, setFolderStack] = useState<FolderStackItem[]>([{ id: 'root', name: 'My Drive' }]);
 
   const currentFolder = folderStack[folderStack.length - 1];
 
+  // Search mode: results replace the folder listing until the search is closed
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchResults, setSearchResults] = useState<any[] | null>(null);
+  const listedFiles = searchResults ?? files;
+
+  useEffect(() => {
+    if (isConnected) loadDrives();
+  }, []);
+
+  // Lists the available drives and opens My Drive
+  const loadDrives = async () => {
+    openDrive(MY_DRIVE);
+    try {
+      setDrives(await listDrives());
+    } catch (err) {
+      // Shared drives are optional; My Drive still works without them
+      console.warn("Could not list shared drives", err);
+    }
+  };
+
+  const openDrive = (drive: DriveInfo) => {
+    setSearchResults(null);
+    setActiveDrive(drive);
+    setFolderStack([{ id: drive.id, name: drive.name }]);
+    fetchFiles(drive.id, drive);
+  };
+
+  const handleSelectDrive = (driveId: string) => {
+    const drive = drives.find(d => d.id === driveId);
+    if (drive && drive.id !== activeDrive.id) openDrive(drive);
+  };
+
   const handleConnect = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsConnecting(true);
     const cleanClientId = clientId.trim();
 
     try {
+      connectGoogleDrive();
+
       // Step 1: Init GAPI (Without API Key, relying on OAuth)
       await initGapi();
       
@@ -50,7 +108,7 @@ export const DriveSelector: React.FC<Props> = ({ apiKey, onFilesSelected }) => {
       localStorage.setItem('google_client_id', cleanClientId);
       
       setIsConnected(true);
-      fetchFiles('root');
+      loadDrives();
     } catch (err: any) {
       console.error(err);
       
@@ -85,28 +143,84 @@ export const DriveSelector: React.FC<Props> = ({ apiKey, onFilesSelected }) => {
     }
   };
 
+  /**
+   * Browses an in-memory sample drive instead of a Google account. Syncing only changes that copy.
+   */
+  const handleConnectDemo = async () => {
+    setIsConnecting(true);
+    try {
+      await connectDemoDrive();
+      setIsConnected(true);
+      loadDrives();
+    } catch (err: any) {
+      alert(`Could not load the demo drive: ${err.message || err}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
   const handleSwitchAccount = () => {
+    crawlController.current?.abort();
+    disconnectDrive();
+    connectGoogleDrive();
     setIsConnected(false);
     setFiles([]);
+    setSelectedFiles(new Map());
+    setDrives([MY_DRIVE]);
+    setActiveDrive(MY_DRIVE);
     setFolderStack([{ id: 'root', name: 'My Drive' }]);
   };
 
-  const fetchFiles = async (folderId: string) => {
+  const fetchFiles = async (folderId: string, drive = activeDrive, retried = false) => {
     setLoadingFiles(true);
     try {
-      const driveFiles = await listDriveFiles(folderId);
+      const driveFiles = await listDriveFiles(folderId, driveIdOf(drive));
       setFiles(driveFiles);
     } catch (err: any) {
       console.error(err);
-      if (err.result && err.result.error && err.result.error.code === 401) {
-          alert("Session expired. Please reconnect.");
-          setIsConnected(false);
+      // Tokens are refreshed before they expire; a 401 waits for the user to reconnect, then loads again
+      if (isUnauthorizedError(err) && !retried) {
+        try {
+          await waitForReauthentication();
+          await fetchFiles(folderId, drive, true);
+          return;
+        } catch {
+          // Dismissed: the connection stays, the folder can be opened again after reconnecting
+        }
       }
+      alert(`Could not load files: ${err.result?.error?.message || err.message || err}`);
     } finally {
       setLoadingFiles(false);
     }
   };
 
+  const handleSearch = async (criteria: DriveSearchCriteria) => {
+    setLoadingFiles(true);
+    try {
+      const results = await searchDriveFiles(criteria, driveIdOf(activeDrive));
+      setSearchResults(await withParentFolderNames(results, driveIdOf(activeDrive), activeDrive.name));
+    } catch (err: any) {
+      console.error(err);
+      alert(`Search failed: ${err.result?.error?.message || err.message || err}`);
+    } finally {
+      setLoadingFiles(false);
+    }
+  };
+
+  const handleCloseSearch = () => {
+    setShowSearch(false);
+    setSearchResults(null);
+  };
+
+  const handleSelectAllResults = () => {
+    if (!searchResults) return;
+    setSelectedFiles(prev => {
+      const newMap = new Map(prev);
+      searchResults.forEach(f => newMap.set(f.id, f));
+      return newMap;
+    });
+  };
+
   const handleFolderClick = (folder: { id: string, name: string }) => {
     const newStack = [...folderStack, folder];
     setFolderStack(newStack);
@@ -127,37 +241,130 @@ export const DriveSelector: React.FC<Props> = ({ apiKey, onFilesSelected }) => {
     }
   };
 
-  const handleSelection = (id: string, isFolder: boolean) => {
-    if (isFolder) return; 
-    const newSet = new Set(selectedIds);
-    if (newSet.has(id)) newSet.delete(id);
-    else newSet.add(id);
-    setSelectedIds(newSet);
+  // Selecting a folder queues the folder itself, analyzed as a unit; its files are queued with the list button
+  const handleSelection = (file: any) => {
+    const newMap = new Map(selectedFiles);
+    if (newMap.has(file.id)) newMap.delete(file.id);
+    // Search results come from anywhere in the drive and already carry their own folder name
+    else newMap.set(file.id, searchResults ? file : { ...file, parentFolderName: currentFolder.name });
+    setSelectedFiles(newMap);
+  };
+
+  /**
+   * Crawls the whole subtree of a folder and queues every file under it for analysis.
+   */
+  const handleQueueFolder = async (e: React.MouseEvent, folder: { id: string, name: string }) => {
+    e.stopPropagation();
+    if (crawl) return;
+
+    const controller = new AbortController();
+    crawlController.current = controller;
+    setCrawl({ folderName: folder.name, found: 0 });
+
+    try {
+      const treeFiles = await listFolderTree(folder.id, {
+        driveId: driveIdOf(activeDrive),
+        signal: controller.signal,
+        onProgress: (found) => setCrawl({ folderName: folder.name, found })
+      });
+      setSelectedFiles(prev => {
+        const newMap = new Map(prev);
+        treeFiles.forEach(f => newMap.set(f.id, {
+          ...f,
+          parentFolderName: f.folderPath ? f.folderPath.split('/').pop() : folder.name
+        }));
+        return newMap;
+      });
+    } catch (err: any) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        alert(`Could not scan folder "${folder.name}": ${err.message || err}`);
+      }
+    } finally {
+      crawlController.current = null;
+      setCrawl(null);
+    }
+  };
+
+  const handleCancelCrawl = () => {
+    crawlController.current?.abort();
   };
 
   const handleAnalyzeSelection = async () => {
-    if (selectedIds.size === 0) return;
+    if (selectedFiles.size === 0) return;
+    await analyzeFiles(Array.from(selectedFiles.values()));
+  };
 
-    const selectedFiles = files.filter(f => selectedIds.has(f.id));
-    
+  /**
+   * Reads the content of raw Drive files and hands them to the app as a new batch.
+   * @returns false when reading failed; the error has been reported and no batch was started
+   */
+  const analyzeFiles = async (rawFiles: any[]): Promise<boolean> => {
     const processedFiles: DriveFile[] = [];
 
-    for (const f of selectedFiles) {
-        const content = await getFileContent(f.id, f.mimeType);
-        processedFiles.push({
-            id: f.id,
-            name: f.name,
-            size: parseInt(f.size || '0'),
-            type: f.mimeType,
-            lastModified: new Date(f.modifiedTime).getTime(),
-            contentSnippet: content.substring(0, 1000), 
-            iconLink: f.iconLink,
-            webViewLink: f.webViewLink,
-            parents: f.parents 
-        });
+    try {
+      for (const f of rawFiles) {
+          setReading({ done: processedFiles.length, total: rawFiles.length });
+          if (f.mimeType === FOLDER_MIME_TYPE) {
+              const { summary, sampleText, piiFindings } = await summarizeFolder(f.id, driveIdOf(activeDrive));
+              processedFiles.push(redactFile({
+                  id: f.id,
+                  name: f.name,
+                  size: 0,
+                  type: f.mimeType,
+                  lastModified: new Date(f.modifiedTime).getTime(),
+                  webViewLink: f.webViewLink,
+                  parents: f.parents,
+                  parentFolderName: f.parentFolderName,
+                  driveId: f.driveId,
+                  capabilities: f.capabilities,
+                  description: f.description,
+                  previousClassification: readPreviousClassification(f.appProperties),
+                  appProperties: f.appProperties,
+                  isFolder: true,
+                  folderSummary: summary,
+                  piiFindings
+              }, sampleText));
+              continue;
+          }
+
+          const size = parseInt(f.size || '0');
+          const content = await getFileContent(f.id, f.mimeType, f.name, size);
+
+          // Photos and scanned PDFs (no text layer) are sent to the model as images
+          const wantsImage = isImageType(f.mimeType) || (isPdfType(f.mimeType, f.name) && needsPdfRender(content));
+          const image = wantsImage ? await getFileImage(f.id, f.mimeType, f.name, size, f.thumbnailLink) : undefined;
+
+          // Redacted locally, so raw secrets are neither persisted nor sent to the model
+          processedFiles.push(redactFile({
+              id: f.id,
+              name: f.name,
+              size,
+              type: f.mimeType,
+              lastModified: new Date(f.modifiedTime).getTime(),
+              iconLink: f.iconLink,
+              webViewLink: f.webViewLink,
+              parents: f.parents,
+              parentFolderName: f.parentFolderName,
+              md5Checksum: f.md5Checksum,
+              driveId: f.driveId,
+              capabilities: f.capabilities,
+              description: f.description,
+              previousClassification: readPreviousClassification(f.appProperties),
+              appProperties: f.appProperties,
+              image
+          }, content));
+      }
+    } catch (err: any) {
+      console.error(err);
+      alert(`Could not read the selected files: ${err.result?.error?.message || err.message || err}`);
+      return false;
+    } finally {
+      setReading(null);
     }
 
     onFilesSelected(processedFiles);
+    return true;
   };
 
   if (!isConnected) {
@@ -206,6 +413,14 @@ export const DriveSelector: React.FC<Props> = ({ apiKey, onFilesSelected }) => {
             {isConnecting ? 'Connecting...' : 'Authorize Access'} <ChevronRight size={16} />
           </button>
         </form>
+
+        <button
+          onClick={handleConnectDemo}
+          disabled={isConnecting}
+          className="mt-3 w-full text-sm text-slate-500 hover:text-blue-600 py-2 flex items-center justify-center gap-2"
+        >
+          <FlaskConical size={14} /> No Google account? Try the demo drive
+        </button>
       </div>
     );
   }
@@ -226,19 +441,64 @@ export const DriveSelector: React.FC<Props> = ({ apiKey, onFilesSelected }) => {
                  <h3 className="font-bold text-slate-700 flex items-center gap-2">
                     <HardDrive size={18} className="text-blue-500"/>
                     <span className="truncate max-w-[200px]">{currentFolder.name}</span>
+                    {isDemo && (
+                      <span className="text-[10px] font-bold text-amber-700 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded">DEMO</span>
+                    )}
                  </h3>
              </div>
              <div className="flex items-center gap-1">
+                {drives.length > 1 && (
+                  <select
+                    value={activeDrive.id}
+                    onChange={(e) => handleSelectDrive(e.target.value)}
+                    disabled={!!crawl}
+                    className="text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 max-w-[160px] focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    title="Switch drive"
+                  >
+                    {drives.map(d => (
+                      <option key={d.id} value={d.id}>{d.isShared ? `Shared: ${d.name}` : d.name}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => showSearch ? handleCloseSearch() : setShowSearch(true)}
+                  className={`p-2 ${showSearch ? 'text-blue-600' : 'text-slate-400 hover:text-blue-600'}`}
+                  title="Search this drive"
+                >
+                    <Search size={16} />
+                </button>
                 <button onClick={handleSwitchAccount} className="text-slate-400 hover:text-red-600 p-2" title="Disconnect Drive">
                     <LogOut size={16} />
                 </button>
-                <button onClick={() => fetchFiles(currentFolder.id)} className="text-slate-400 hover:text-blue-600 p-2" title="Refresh">
+                <button onClick={() => { setSearchResults(null); fetchFiles(currentFolder.id); }} className="text-slate-400 hover:text-blue-600 p-2" title="Refresh">
                     <RefreshCw size={16} />
                 </button>
              </div>
          </div>
          
+         {showSearch && (
+           <DriveSearchForm
+             driveName={activeDrive.name}
+             isSearching={loadingFiles}
+             onSearch={handleSearch}
+             onClose={handleCloseSearch}
+           />
+         )}
+
          {/* Breadcrumbs */}
+         {searchResults ? (
+           <div className="flex items-center justify-between text-xs text-slate-500 pt-2">
+             <span>
+               {searchResults.length} results
+               {searchResults.length >= MAX_SEARCH_RESULTS && ` (first ${MAX_SEARCH_RESULTS}, narrow the search to see more)`}
+             </span>
+             {searchResults.length > 0 && (
+               <button onClick={handleSelectAllResults} className="font-medium text-blue-600 hover:underline">
+                 Select all results
+               </button>
+             )}
+           </div>
+         ) : (
          <div className="flex items-center gap-1 text-xs text-slate-500 overflow-x-auto whitespace-nowrap pb-1">
              <Home size={12} className="cursor-pointer hover:text-blue-600" onClick={() => handleBreadcrumbClick(0)} />
              {folderStack.slice(1).map((folder, idx) => (
@@ -253,40 +513,70 @@ export const DriveSelector: React.FC<Props> = ({ apiKey, onFilesSelected }) => {
                  </React.Fragment>
              ))}
          </div>
+         )}
       </div>
+
+      <WatchBar drive={activeDrive} disabled={!!crawl || !!reading || loadingFiles} onNewFiles={analyzeFiles} />
       
       {/* File List */}
       <div className="flex-1 overflow-y-auto p-2 bg-slate-50/50">
-        {loadingFiles ? (
+        {crawl ? (
+           <div className="flex flex-col justify-center items-center h-full text-slate-500 gap-3">
+             <RefreshCw className="animate-spin text-blue-500" size={24}/> 
+             <span className="text-sm font-medium">Scanning "{crawl.folderName}"...</span>
+             <span className="text-xs font-mono text-blue-600">{crawl.found} files found</span>
+             <button 
+               onClick={handleCancelCrawl}
+               className="mt-2 flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-red-600 border border-slate-200 hover:border-red-200 bg-white px-3 py-1.5 rounded-lg transition-colors"
+             >
+               <X size={12} /> Cancel
+             </button>
+           </div>
+        ) : reading ? (
+           <div className="flex flex-col justify-center items-center h-full text-slate-500 gap-3">
+             <RefreshCw className="animate-spin text-blue-500" size={24}/> 
+             <span className="text-sm font-medium">Reading files...</span>
+             <span className="text-xs font-mono text-blue-600">{reading.done} of {reading.total}</span>
+           </div>
+        ) : loadingFiles ? (
            <div className="flex flex-col justify-center items-center h-full text-slate-400 gap-3">
              <RefreshCw className="animate-spin text-blue-500" size={24}/> 
              <span className="text-sm font-medium">Loading files...</span>
            </div>
         ) : (
            <div className="space-y-1">
-             {files.length === 0 && (
+             {listedFiles.length === 0 && (
                  <div className="text-center py-20 text-slate-400 text-sm">
-                     Folder is empty
+                     {searchResults ? 'No files match this search' : 'Folder is empty'}
                  </div>
              )}
-             {files.map(file => {
-               const isFolder = file.mimeType === 'application/vnd.google-apps.folder';
+             {listedFiles.map(file => {
+               const isFolder = file.mimeType === FOLDER_MIME_TYPE;
                return (
                  <div 
                    key={file.id} 
-                   onClick={() => isFolder ? handleFolderClick(file) : handleSelection(file.id, isFolder)}
+                   onClick={() => isFolder ? handleFolderClick(file) : handleSelection(file)}
                    className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors border ${
-                       selectedIds.has(file.id) 
+                       selectedFiles.has(file.id) 
                        ? 'bg-blue-50 border-blue-200' 
                        : 'bg-white border-transparent hover:border-slate-200 hover:shadow-sm'
                    }`}
                  >
                    {/* Checkbox or Icon */}
                    <div className="flex-shrink-0">
-                       {isFolder ? (
-                           <Folder className="text-slate-400 fill-slate-100" size={20} />
+                       {isFolder && !selectedFiles.has(file.id) ? (
+                           <button
+                             onClick={(e) => { e.stopPropagation(); handleSelection(file); }}
+                             className="group/folder block"
+                             title="Select this folder to analyze it as a whole"
+                           >
+                             <Folder className="text-slate-400 fill-slate-100 group-hover/folder:text-blue-500" size={20} />
+                           </button>
                        ) : (
-                           <div className={`w-5 h-5 rounded flex items-center justify-center transition-all ${selectedIds.has(file.id) ? 'bg-blue-500 text-white' : 'border border-slate-300 text-transparent hover:border-blue-400'}`}>
+                           <div
+                             onClick={isFolder ? (e) => { e.stopPropagation(); handleSelection(file); } : undefined}
+                             className={`w-5 h-5 rounded flex items-center justify-center transition-all ${selectedFiles.has(file.id) ? 'bg-blue-500 text-white' : 'border border-slate-300 text-transparent hover:border-blue-400'}`}
+                           >
                                 <CheckCircle2 size={14} />
                            </div>
                        )}
@@ -306,9 +596,23 @@ export const DriveSelector: React.FC<Props> = ({ apiKey, onFilesSelected }) => {
                               <span>{Math.round(parseInt(file.size || '0')/1024)} KB</span>
                           )}
                           <span>{new Date(file.modifiedTime).toLocaleDateString()}</span>
+                          {file.appProperties?.category && (
+                              <span className="text-indigo-500" title={`Classified ${new Date(file.appProperties.analyzedAt).toLocaleDateString()}`}>
+                                  {file.appProperties.category}
+                              </span>
+                          )}
                       </div>
                    </div>
 
+                   {isFolder && (
+                      <button 
+                        onClick={(e) => handleQueueFolder(e, file)}
+                        className="p-1.5 text-slate-300 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                        title="Queue every file in this folder and its subfolders"
+                      >
+                        <ListPlus size={16} />
+                      </button>
+                   )}
                    {isFolder && <ChevronRight size={16} className="text-slate-300" />}
                  </div>
                );
@@ -319,11 +623,11 @@ export const DriveSelector: React.FC<Props> = ({ apiKey, onFilesSelected }) => {
 
       <div className="p-4 border-t border-slate-100 bg-white rounded-b-2xl flex justify-between items-center shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)] z-10">
          <span className="text-sm text-slate-600 font-medium">
-            {selectedIds.size} files ready for analysis
+            {selectedFiles.size} files ready for analysis
          </span>
          <button 
            onClick={handleAnalyzeSelection}
-           disabled={selectedIds.size === 0}
+           disabled={selectedFiles.size === 0 || !!crawl || !!reading}
            className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl text-sm font-semibold hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed transition-all shadow-md shadow-indigo-100"
          >
             Analyze Selected
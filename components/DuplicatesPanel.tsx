@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Copy, Archive, Files, FolderOpen, Fingerprint, CheckCircle2 } from 'lucide-react';
+import { ProcessedFile, AnalysisResult, CategoryDefinition } from '../types';
+import { DuplicateGroup, markAsCopy } from '../services/duplicateService';
+import { getArchiveCategory, getCategoryLabel } from '../services/taxonomyService';
+
+interface Props {
+  groups: DuplicateGroup[];
+  files: ProcessedFile[];
+  taxonomy: CategoryDefinition[];
+  onUpdate: (id: string, updates: Partial<AnalysisResult>) => void;
+}
+
+const GROUP_TITLES: Record<DuplicateGroup['kind'], string> = {
+  exact: 'Exact duplicates',
+  near: 'Near duplicates',
+  possible: 'Possible duplicates'
+};
+
+export const DuplicatesPanel: React.FC<Props> = ({ groups, files, taxonomy, onUpdate }) => {
+  // Keeper chosen per group; defaults to the most recently modified file
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+
+  const getMembers = (group: DuplicateGroup) => files.filter(f => group.fileIds.includes(f.id));
+
+  const getKeeperId = (group: DuplicateGroup): string => {
+    if (keepers[group.id]) return keepers[group.id];
+    const members = getMembers(group);
+    return [...members].sort((a, b) => b.lastModified - a.lastModified)[0]?.id;
+  };
+
+  // Duplicates are never deleted: the extra copies are moved to the archive for a human to clean up later
+  const handleArchiveRest = (group: DuplicateGroup) => {
+    const keeperId = getKeeperId(group);
+    const archive = getArchiveCategory(taxonomy);
+    const archiveLabel = archive ? getCategoryLabel(archive) : 'Archive';
+
+    getMembers(group).filter(f => f.id !== keeperId && f.analysis).forEach(f => {
+      onUpdate(f.id, {
+        category: archive ? archiveLabel : f.analysis!.category,
+        suggestedPath: `${archiveLabel}/Duplicates`,
+        shouldArchive: true,
+        duplicateOf: keeperId,
+        reasoning: `Duplicate of "${files.find(k => k.id === keeperId)?.name}". ${f.analysis!.reasoning}`
+      });
+    });
+  };
+
+  const handleMarkCopies = (group: DuplicateGroup) => {
+    const keeperId = getKeeperId(group);
+    getMembers(group).filter(f => f.id !== keeperId && f.analysis).forEach((f, index) => {
+      onUpdate(f.id, {
+        suggestedName: markAsCopy(f.analysis!.suggestedName, index + 1),
+        duplicateOf: keeperId
+      });
+    });
+  };
+
+  if (groups.length === 0) {
+    return (
+      <div className="p-12 text-center text-slate-400">
+        <div className="flex flex-col items-center gap-2">
+          <Files size={24} className="opacity-20" />
+          <p>No duplicates found in this batch.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <p className="text-xs text-slate-500">
+        Nothing is deleted. Extra copies are either archived or renamed as copies, and still need your approval before syncing.
+      </p>
+      {groups.map(group => {
+        const members = getMembers(group);
+        const keeperId = getKeeperId(group);
+        const isResolved = members.every(f => f.id === keeperId || f.analysis?.duplicateOf);
+        const isLocked = members.some(f => f.status !== 'pending');
+
+        return (
+          <div key={group.id} className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex justify-between items-center">
+              <div className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+                {group.kind === 'exact' ? <Fingerprint size={14} className="text-rose-500" /> : <Copy size={14} className={group.kind === 'near' ? 'text-amber-500' : 'text-slate-400'} />}
+                {GROUP_TITLES[group.kind]}
+                <span className="font-normal text-slate-400">· {group.reason}</span>
+              </div>
+              {isResolved ? (
+                <span className="flex items-center gap-1 text-[10px] font-bold text-green-600">
+                  <CheckCircle2 size={12} /> RESOLVED
+                </span>
+              ) : (
+                <div className="flex gap-2">
+                  {/* Without a content comparison the files may well be different, so they are never archived in bulk */}
+                  {group.kind !== 'possible' && (
+                  <button
+                    onClick={() => handleArchiveRest(group)}
+                    disabled={isLocked}
+                    className="flex items-center gap-1 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 hover:bg-amber-100 px-2.5 py-1 rounded disabled:opacity-40"
+                  >
+                    <Archive size={12} /> Keep one, archive the rest
+                  </button>
+                  )}
+                  <button
+                    onClick={() => handleMarkCopies(group)}
+                    disabled={isLocked}
+                    className="flex items-center gap-1 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 px-2.5 py-1 rounded disabled:opacity-40"
+                  >
+                    <Copy size={12} /> Keep all, mark as copies
+                  </button>
+                </div>
+              )}
+            </div>
+            <div className="divide-y divide-slate-100">
+              {members.map(file => (
+                <label key={file.id} className="flex items-center gap-3 px-4 py-2 cursor-pointer hover:bg-slate-50">
+                  <input
+                    type="radio"
+                    name={`keeper-${group.id}`}
+                    checked={file.id === keeperId}
+                    onChange={() => setKeepers(prev => ({ ...prev, [group.id]: file.id }))}
+                    disabled={isResolved}
+                  />
+                  <div className="flex-1 overflow-hidden">
+                    <div className="text-sm text-slate-700 truncate">{file.name}</div>
+                    <div className="text-[10px] text-slate-400 flex gap-2">
+                      <span>{new Date(file.lastModified).toLocaleDateString()}</span>
+                      <span>•</span>
+                      <span>{(file.size / 1024).toFixed(0)} KB</span>
+                    </div>
+                  </div>
+                  <div className="text-xs text-slate-500 font-mono flex items-center gap-1 max-w-[45%] truncate">
+                    <FolderOpen size={12} className="flex-shrink-0 text-slate-400" />
+                    {file.analysis?.suggestedPath}/{file.analysis?.suggestedName}
+                  </div>
+                  {file.id === keeperId && (
+                    <span className="text-[10px] font-bold text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">KEEP</span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
 import React, { useRef } from 'react';
 import { UploadCloud, FileText } from 'lucide-react';
-import { DriveFile } from '../types';
+import { DriveFile, ImageAttachment } from '../types';
+import { extractText, isExtractable } from '../services/extractionService';
+import { redactFile } from '../services/piiService';
+import { downscaleImage, renderPdfFirstPage, isImageType, isPdfType, needsPdfRender } from '../services/imageService';
 
 interface Props {
   onFilesSelected: (files: DriveFile[]) => void;
@@ -15,26 +18,38 @@ export const FileUploader: React.FC<Props> = ({ onFilesSelected }) => {
       
       for (let i = 0; i < e.target.files.length; i++) {
         const file = e.target.files[i];
-        let contentSnippet = undefined;
+        let text: string | undefined = undefined;
 
-        // Simple text snippet reading for context
-        if (file.type.startsWith('text/') || file.type.includes('json') || file.type.includes('markdown')) {
+        // Same extractors as Drive files: plain text, PDF, Word, Excel and PowerPoint
+        if (isExtractable(file.type, file.name)) {
           try {
-             const text = await file.text();
-             contentSnippet = text.substring(0, 500); // Only first 500 chars for context
+             text = (await extractText(await file.arrayBuffer(), file.type, file.name)) || undefined;
           } catch (err) {
-            console.warn("Could not read file text", err);
+            console.warn("Could not extract file text", err);
           }
         }
 
-        newFiles.push({
+        // Photos and scanned PDFs (no text layer) are sent to the model as images
+        let image: ImageAttachment | undefined = undefined;
+        try {
+          if (isImageType(file.type)) {
+            image = await downscaleImage(file);
+          } else if (isPdfType(file.type, file.name) && needsPdfRender(text)) {
+            image = await renderPdfFirstPage(await file.arrayBuffer());
+          }
+        } catch (err) {
+          console.warn("Could not prepare image for analysis", err);
+        }
+
+        // Redacted locally, so raw secrets are neither persisted nor sent to the model
+        newFiles.push(redactFile({
           id: Math.random().toString(36).substring(7),
           name: file.name,
           size: file.size,
           type: file.type || 'unknown',
           lastModified: file.lastModified,
-          contentSnippet
-        });
+          image
+        }, text));
       }
       onFilesSelected(newFiles);
     }
@@ -57,7 +72,7 @@ export const FileUploader: React.FC<Props> = ({ onFilesSelected }) => {
       </div>
       <h3 className="text-xl font-bold text-slate-800 mb-2">Drop batch here or click to upload</h3>
       <p className="text-slate-500 mb-6 max-w-sm mx-auto">
-        Recommended batch size: 200–300 files. Gemini will analyze content, classify into taxonomy, and suggest professional renames.
+        Recommended batch size: 200–300 files. The model will analyze content, classify into taxonomy, and suggest professional renames.
       </p>
       <div className="flex justify-center gap-4 text-xs text-slate-400 font-medium">
         <span className="flex items-center gap-1"><FileText size={12}/> Documents</span>
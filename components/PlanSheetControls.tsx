@@ -0,0 +1,88 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, X, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { ProcessedFile, CategoryDefinition } from '../types';
+import { exportPlanCsv, exportPlanXlsx, readPlanFile, validatePlanRows, PlanChange, PlanImportReport } from '../services/planSheetService';
+import { downloadFile } from '../services/fileDownload';
+
+interface Props {
+  files: ProcessedFile[];
+  taxonomy: CategoryDefinition[];
+  onImport: (changes: PlanChange[]) => void;
+}
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Export / import of the review plan, so large batches can be reviewed in a spreadsheet app.
+ */
+export const PlanSheetControls: React.FC<Props> = ({ files, taxonomy, onImport }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<PlanImportReport | null>(null);
+
+  const fileStem = `drive-plan-${new Date().toISOString().slice(0, 10)}`;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again after fixing it
+    if (!file) return;
+
+    try {
+      const rows = await readPlanFile(file);
+      const result = validatePlanRows(rows, files, taxonomy);
+      onImport(result.changes);
+      setReport(result);
+    } catch (err: any) {
+      setReport({ changes: [], unchanged: 0, issues: [{ row: 1, message: `Could not read "${file.name}": ${err.message || err}` }] });
+    }
+  };
+
+  const buttonClass = "flex items-center gap-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 px-2.5 py-1.5 rounded-lg";
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <button onClick={() => downloadFile(exportPlanCsv(files), `${fileStem}.csv`, 'text/csv;charset=utf-8')} className={buttonClass}>
+          <Download size={12} /> CSV
+        </button>
+        <button onClick={() => downloadFile(exportPlanXlsx(files), `${fileStem}.xlsx`, XLSX_MIME)} className={buttonClass}>
+          <Download size={12} /> XLSX
+        </button>
+        <button onClick={() => inputRef.current?.click()} className={buttonClass} title="Apply decisions from an edited export">
+          <Upload size={12} /> Import
+        </button>
+        <input ref={inputRef} type="file" accept=".csv,.xlsx" className="hidden" onChange={handleImport} />
+      </div>
+
+      {report && (
+        <div className="fixed bottom-6 right-6 z-40 w-96 max-h-[60vh] bg-white border border-slate-200 rounded-xl shadow-xl flex flex-col">
+          <div className="px-4 py-3 border-b border-slate-100 flex justify-between items-center">
+            <h4 className="text-sm font-bold text-slate-800">Import report</h4>
+            <button onClick={() => setReport(null)} className="text-slate-400 hover:text-slate-700">
+              <X size={16} />
+            </button>
+          </div>
+          <div className="px-4 py-3 text-xs text-slate-600 space-y-1">
+            <div className="flex items-center gap-1.5 text-green-700">
+              <CheckCircle2 size={12} /> {report.changes.length} files updated, {report.unchanged} unchanged
+            </div>
+            {report.issues.length > 0 && (
+              <div className="flex items-center gap-1.5 text-red-600">
+                <AlertTriangle size={12} /> {report.issues.length} problems; those rows were skipped
+              </div>
+            )}
+          </div>
+          {report.issues.length > 0 && (
+            <div className="overflow-y-auto border-t border-slate-100 divide-y divide-slate-100">
+              {report.issues.map((issue, i) => (
+                <div key={i} className="px-4 py-2 text-xs">
+                  <span className="font-mono text-slate-400 mr-2">Row {issue.row}</span>
+                  <span className="text-slate-700">{issue.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { KeyRound, RefreshCw, X } from 'lucide-react';
+import { reconnectDrive, dismissReconnect } from '../services/driveService';
+
+/**
+ * Shown while Drive requests wait for a new token. Signing in has to start from this click,
+ * since browsers block Google's popup otherwise.
+ */
+export const ReconnectBanner: React.FC = () => {
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState<string | null>(null);
+
+  const handleReconnect = async () => {
+    setBusy(true);
+    setFailed(null);
+    try {
+      await reconnectDrive();
+    } catch (err: any) {
+      console.error(err);
+      setFailed(err?.message || err?.error || 'Signing in failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-white rounded text-amber-600 border border-amber-100">
+          <KeyRound size={16} />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-amber-900">Google Drive session expired</p>
+          <p className="text-xs text-amber-700 mt-0.5">
+            {failed ? `Could not reconnect: ${failed}` : 'Drive requests are paused until you reconnect.'}
+          </p>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={dismissReconnect}
+          disabled={busy}
+          className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-red-600 px-3 py-2 rounded-lg transition-colors"
+          title="Let the paused requests fail"
+        >
+          <X size={14} /> Dismiss
+        </button>
+        <button
+          onClick={handleReconnect}
+          disabled={busy}
+          className="flex items-center gap-1.5 bg-amber-600 text-white text-sm font-medium px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors shadow-sm disabled:opacity-60"
+        >
+          <RefreshCw size={14} className={busy ? 'animate-spin' : ''} /> Reconnect
+        </button>
+      </div>
+    </div>
+  );
+};
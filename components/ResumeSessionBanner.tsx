@@ -0,0 +1,54 @@
+import React from 'react';
+import { History, Play, Trash2 } from 'lucide-react';
+import { AppState, PersistedSession } from '../types';
+
+interface Props {
+  session: PersistedSession;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const describeStage = (session: PersistedSession): string => {
+  if (session.syncInProgress) {
+    const synced = session.files.filter(f => f.status === 'synced').length;
+    const toSync = synced + session.files.filter(f => f.status === 'approved').length;
+    return `Sync interrupted after ${synced} of ${toSync} files`;
+  }
+  if (session.appState === AppState.ANALYZING) {
+    const analyzed = session.files.filter(f => f.analysis).length;
+    return `Analysis interrupted after ${analyzed} of ${session.files.length} files`;
+  }
+  return `Review in progress for ${session.files.length} files`;
+};
+
+export const ResumeSessionBanner: React.FC<Props> = ({ session, onResume, onDiscard }) => {
+  return (
+    <div className="mb-8 bg-indigo-50 border border-indigo-100 rounded-lg p-4 flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-white rounded text-indigo-600 border border-indigo-100">
+          <History size={16} />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-indigo-900">Unfinished batch found</p>
+          <p className="text-xs text-indigo-700 mt-0.5">
+            {describeStage(session)} · saved {new Date(session.updatedAt).toLocaleString()}
+          </p>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={onDiscard}
+          className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-red-600 px-3 py-2 rounded-lg transition-colors"
+        >
+          <Trash2 size={14} /> Discard
+        </button>
+        <button
+          onClick={onResume}
+          className="flex items-center gap-1.5 bg-indigo-600 text-white text-sm font-medium px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors shadow-sm"
+        >
+          <Play size={14} fill="currentColor" /> Resume
+        </button>
+      </div>
+    </div>
+  );
+};
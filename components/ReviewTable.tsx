@@ -1,30 +1,39 @@
 import React, { useState, useMemo } from 'react';
-import { ProcessedFile, FileCategory, AnalysisResult, SensitivityLevel } from '../types';
-import { Check, X, ArrowRight, FolderOpen, Archive, FileText, Edit2, Save, AlertTriangle, ShieldAlert, Shield, Filter, CornerDownRight } from 'lucide-react';
+import { ProcessedFile, AnalysisResult, SensitivityLevel, CategoryDefinition, FolderIndex } from '../types';
+import { findCategory, getCategoryDisplayName } from '../services/taxonomyService';
+import { findDuplicateGroups } from '../services/duplicateService';
+import { getDetectorLabel } from '../services/piiService';
+import { checkNamingConvention } from '../services/namingConvention';
+import { checkNameSafety, getActiveConflict, getSafeName } from '../services/nameSafety';
+import { findNewFolders } from '../services/folderIndex';
+import { CATEGORY_COLORS } from './categoryStyles';
+import { DuplicatesPanel } from './DuplicatesPanel';
+import { PlanSheetControls } from './PlanSheetControls';
+import { SharingPanel, SharingRiskBadge } from './SharingPanel';
+import { PlanChange } from '../services/planSheetService';
+import { Check, X, ArrowRight, FolderOpen, Archive, FileText, Edit2, Save, AlertTriangle, ShieldAlert, Shield, Filter, CornerDownRight, ListChecks, Copy, ScanEye, History, Users, Folder, Wand2, FileWarning, FolderPlus } from 'lucide-react';
 
 interface Props {
   files: ProcessedFile[];
+  taxonomy: CategoryDefinition[];
   onApprove: (id: string) => void;
   onReject: (id: string) => void;
   onApproveAll: () => void;
   onUpdate: (id: string, updates: Partial<AnalysisResult>) => void;
+  onImportPlan: (changes: PlanChange[]) => void;
+  onToggleRemediation: (id: string, permissionId: string) => void;
+  folderIndex: FolderIndex | null; // Existing folders of the drive; null when unknown (uploads, resumed batches)
+  modelLabel: string; // Provider and model that made the proposals
 }
 
-const CategoryBadge: React.FC<{ category?: FileCategory }> = ({ category }) => {
-  const colors: Record<string, string> = {
-    [FileCategory.WORK]: 'bg-blue-100 text-blue-700 border-blue-200',
-    [FileCategory.PERSONAL]: 'bg-green-100 text-green-700 border-green-200',
-    [FileCategory.FINANCE]: 'bg-emerald-100 text-emerald-700 border-emerald-200',
-    [FileCategory.LEGAL]: 'bg-red-100 text-red-700 border-red-200',
-    [FileCategory.PHOTOS_VIDEOS]: 'bg-purple-100 text-purple-700 border-purple-200',
-    [FileCategory.ARCHIVE]: 'bg-slate-100 text-slate-600 border-slate-200',
-  };
-
+const CategoryBadge: React.FC<{ category?: string; taxonomy: CategoryDefinition[] }> = ({ category, taxonomy }) => {
+  const definition = findCategory(taxonomy, category);
   const defaultColor = 'bg-gray-100 text-gray-600 border-gray-200';
+  const color = definition ? CATEGORY_COLORS[definition.color]?.badge || defaultColor : defaultColor;
   
   return (
-    <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded border ${category ? colors[category] || defaultColor : defaultColor}`}>
-      {category?.split('_')[1] || 'Unknown'}
+    <span title={definition?.description} className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded border ${color}`}>
+      {category ? getCategoryDisplayName(category) : 'Unknown'}
     </span>
   );
 };
@@ -47,8 +56,18 @@ const SensitivityBadge: React.FC<{ level?: SensitivityLevel }> = ({ level }) =>
   );
 };
 
-export const ReviewTable: React.FC<Props> = ({ files, onApprove, onReject, onApproveAll, onUpdate }) => {
-  const [filter, setFilter] = useState<'all' | 'needs_review' | 'archive' | 'sensitive'>('all');
+// What a folder proposal does to the whole folder, e.g. "rename · move"
+const describeFolderProposal = (file: ProcessedFile): string => {
+  const actions: string[] = [];
+  if (file.analysis!.suggestedName !== file.name) actions.push('rename');
+  const path = file.analysis!.suggestedPath;
+  if (path && path !== '/' && path !== '.') actions.push('move');
+  if (file.analysis!.shouldArchive) actions.push('archive');
+  return actions.length > 0 ? actions.join(' · ') : 'keep as is';
+};
+
+export const ReviewTable: React.FC<Props> = ({ files, taxonomy, onApprove, onReject, onApproveAll, onUpdate, onImportPlan, onToggleRemediation, folderIndex, modelLabel }) => {
+  const [filter, setFilter] = useState<'all' | 'needs_review' | 'archive' | 'sensitive' | 'duplicates' | 'sharing'>('all');
   
   // Track editing state
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -59,15 +78,32 @@ export const ReviewTable: React.FC<Props> = ({ files, onApprove, onReject, onApp
       if (f.status !== 'pending' && filter !== 'all') return false; 
 
       if (filter === 'needs_review') {
-        return f.analysis?.reasoning.toLowerCase().includes('manual') || (f.analysis?.confidence || 1) < 0.8;
+        return f.analysis?.reasoning.toLowerCase().includes('manual') || (f.analysis?.confidence || 1) < 0.8
+          || (!!f.analysis && !!checkNamingConvention(f, f.analysis, taxonomy))
+          || (!!f.analysis && checkNameSafety(f, f.analysis.suggestedName).length > 0) || !!getActiveConflict(f);
       }
       if (filter === 'archive') return f.analysis?.shouldArchive;
       if (filter === 'sensitive') return f.analysis?.sensitivity === 'High Risk' || f.analysis?.sensitivity === 'Confidential';
       return true;
     });
-  }, [files, filter]);
+  }, [files, filter, taxonomy]);
+
+  // The grouping compares every pair, so it only reruns when the files themselves change, not on each edit
+  const duplicateCandidates = files.filter(f => f.analysis && !f.isFolder);
+  const duplicateKey = JSON.stringify(duplicateCandidates.map(f => [f.id, f.name, f.size, f.type, f.md5Checksum, f.contentSnippet]));
+  const duplicateGroups = useMemo(() => findDuplicateGroups(duplicateCandidates), [duplicateKey]);
+
+  // Every folder the batch would create, so the growth of the tree is visible before syncing
+  const newFolderPaths = useMemo(() => {
+    if (!folderIndex) return [];
+    const paths = files
+      .filter(f => f.analysis && f.status !== 'rejected' && f.status !== 'synced')
+      .flatMap(f => findNewFolders(f.analysis!.suggestedPath, folderIndex));
+    return Array.from(new Set(paths)).sort();
+  }, [files, folderIndex]);
 
   const pendingCount = files.filter(f => f.status === 'pending').length;
+  const overSharedCount = files.filter(f => f.sharing && Object.keys(f.sharing.risks).length > 0).length;
   const sensitiveCount = files.filter(f => f.analysis?.sensitivity === 'High Risk' && f.status === 'pending').length;
 
   const startEdit = (file: ProcessedFile) => {
@@ -97,10 +133,16 @@ export const ReviewTable: React.FC<Props> = ({ files, onApprove, onReject, onApp
             <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
               Review Suggestions
               <span className="bg-indigo-50 text-indigo-700 text-xs px-2 py-1 rounded-full border border-indigo-100">{pendingCount} Pending</span>
+              {newFolderPaths.length > 0 && (
+                <span title={newFolderPaths.join('\n')} className="flex items-center gap-1 bg-sky-50 text-sky-700 text-xs px-2 py-1 rounded-full border border-sky-100">
+                  <FolderPlus size={12} /> {newFolderPaths.length} new folders
+                </span>
+              )}
             </h2>
-            <p className="text-xs text-slate-500">Approve Gemini's renaming and moves. Edit if needed.</p>
+            <p className="text-xs text-slate-500">Approve the renaming and moves proposed by {modelLabel}. Edit if needed.</p>
           </div>
-          <div className="flex gap-3">
+          <div className="flex gap-3 items-center">
+             <PlanSheetControls files={files} taxonomy={taxonomy} onImport={onImportPlan} />
              {sensitiveCount > 0 && (
                <div className="flex items-center gap-2 px-3 py-1.5 bg-rose-50 text-rose-700 rounded-md text-xs font-bold border border-rose-100 animate-pulse">
                  <ShieldAlert size={14} /> {sensitiveCount} High Risk Files Detected
@@ -143,16 +185,39 @@ export const ReviewTable: React.FC<Props> = ({ files, onApprove, onReject, onApp
            >
              <Shield size={14} /> Sensitive Data
            </button>
+           <button 
+             onClick={() => setFilter('duplicates')}
+             className={`pb-3 border-b-2 transition-colors flex items-center gap-1.5 ${filter === 'duplicates' ? 'border-orange-500 text-orange-700' : 'border-transparent hover:text-slate-700'}`}
+           >
+             <Copy size={14} /> Duplicates
+             {duplicateGroups.length > 0 && (
+               <span className="bg-orange-100 text-orange-700 text-[10px] px-1.5 rounded-full">{duplicateGroups.length}</span>
+             )}
+           </button>
+           <button 
+             onClick={() => setFilter('sharing')}
+             className={`pb-3 border-b-2 transition-colors flex items-center gap-1.5 ${filter === 'sharing' ? 'border-rose-500 text-rose-700' : 'border-transparent hover:text-slate-700'}`}
+           >
+             <Users size={14} /> Sharing
+             {overSharedCount > 0 && (
+               <span className="bg-rose-100 text-rose-700 text-[10px] px-1.5 rounded-full">{overSharedCount}</span>
+             )}
+           </button>
         </div>
       </div>
 
       <div className="overflow-auto flex-1 bg-slate-50/50">
+        {filter === 'duplicates' ? (
+          <DuplicatesPanel groups={duplicateGroups} files={files} taxonomy={taxonomy} onUpdate={onUpdate} />
+        ) : filter === 'sharing' ? (
+          <SharingPanel files={files} onApprove={onApprove} onToggleRemediation={onToggleRemediation} />
+        ) : (
         <table className="w-full text-left border-collapse">
           <thead className="bg-slate-50 sticky top-0 text-xs font-semibold text-slate-500 uppercase tracking-wider z-10 shadow-sm">
             <tr>
               <th className="p-4 border-b border-slate-200 w-[30%]">Original</th>
               <th className="p-4 border-b border-slate-200 w-8"><ArrowRight size={16} className="text-slate-300 mx-auto"/></th>
-              <th className="p-4 border-b border-slate-200 w-[40%]">Gemini Proposal</th>
+              <th className="p-4 border-b border-slate-200 w-[40%]">Proposal ({modelLabel})</th>
               <th className="p-4 border-b border-slate-200 w-[15%]">Taxonomy</th>
               <th className="p-4 border-b border-slate-200 text-right w-[15%]">Action</th>
             </tr>
@@ -172,20 +237,41 @@ export const ReviewTable: React.FC<Props> = ({ files, onApprove, onReject, onApp
               const isEditing = editingId === file.id;
               const isSensitive = file.analysis?.sensitivity === 'High Risk';
               const isRenamed = file.analysis?.suggestedName !== file.name;
+              const namingIssue = file.analysis ? checkNamingConvention(file, file.analysis, taxonomy) : null;
+              const safetyProblems = file.analysis ? checkNameSafety(file, file.analysis.suggestedName) : [];
+              const conflict = getActiveConflict(file);
+              const newFolders = folderIndex && file.analysis ? findNewFolders(file.analysis.suggestedPath, folderIndex) : [];
 
               return (
                 <tr key={file.id} className={`hover:bg-slate-50 transition-colors ${file.status !== 'pending' && !isEditing ? 'opacity-50 grayscale' : ''} ${isSensitive ? 'bg-rose-50/30' : ''}`}>
                   <td className="p-4 align-top">
                     <div className="flex items-start gap-3">
-                      <div className="p-2 bg-slate-100 rounded text-slate-500 mt-1">
-                         <FileText size={16} />
-                      </div>
+                      {file.isFolder ? (
+                        <div className="p-2 bg-amber-50 rounded text-amber-600 mt-1">
+                           <Folder size={16} />
+                        </div>
+                      ) : file.image ? (
+                        <img 
+                          src={`data:${file.image.mimeType};base64,${file.image.data}`} 
+                          alt="" 
+                          title="Image sent to the model"
+                          className="w-9 h-9 object-cover rounded border border-slate-200 mt-1 flex-shrink-0" 
+                        />
+                      ) : (
+                        <div className="p-2 bg-slate-100 rounded text-slate-500 mt-1">
+                           <FileText size={16} />
+                        </div>
+                      )}
                       <div className="overflow-hidden">
                         <div className="text-sm font-medium text-slate-700 truncate max-w-[200px]" title={file.name}>{file.name}</div>
                         <div className="text-xs text-slate-400 mt-1 flex gap-2">
                           <span>{new Date(file.lastModified).toLocaleDateString()}</span>
                           <span>•</span>
-                          <span>{(file.size / 1024).toFixed(0)} KB</span>
+                          {file.isFolder ? (
+                            <span>{file.folderSummary?.fileCount ?? 0} files, {file.folderSummary?.folderCount ?? 0} folders</span>
+                          ) : (
+                            <span>{(file.size / 1024).toFixed(0)} KB</span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -220,6 +306,11 @@ export const ReviewTable: React.FC<Props> = ({ files, onApprove, onReject, onApp
                            <Save size={12} /> Save Changes
                          </button>
                       </div>
+                    ) : !file.analysis ? (
+                      <div className="flex items-start gap-2 text-xs text-red-600">
+                        <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                        <span>Analysis failed{file.error ? `: ${file.error}` : '.'}</span>
+                      </div>
                     ) : (
                       <div className="space-y-1 group/edit">
                         <div className="flex items-start justify-between gap-2">
@@ -237,6 +328,12 @@ export const ReviewTable: React.FC<Props> = ({ files, onApprove, onReject, onApp
                           )}
                         </div>
                         
+                        {file.isFolder && file.analysis && (
+                          <div className="flex items-center gap-1.5 text-[10px] font-bold text-amber-700 uppercase">
+                            <Folder size={10} /> Whole folder: {describeFolderProposal(file)}
+                          </div>
+                        )}
+
                         <div className="flex flex-col gap-1">
                            <div className="flex items-center gap-2 text-xs text-slate-500 font-mono">
                                <CornerDownRight size={12} className="text-slate-300" />
@@ -244,23 +341,124 @@ export const ReviewTable: React.FC<Props> = ({ files, onApprove, onReject, onApp
                                  <FolderOpen size={12} className="flex-shrink-0 text-slate-400" />
                                  {file.analysis?.suggestedPath}
                                </div>
+                               {newFolders.length > 0 && (
+                                 <span
+                                   title={`Created on sync:\n${newFolders.join('\n')}`}
+                                   className="flex items-center gap-1 text-[10px] font-sans font-bold text-sky-700 bg-sky-50 border border-sky-100 px-1.5 py-0.5 rounded uppercase flex-shrink-0"
+                                 >
+                                   <FolderPlus size={10} /> {newFolders.length > 1 ? `${newFolders.length} new folders` : 'New folder'}
+                                 </span>
+                               )}
                            </div>
                         </div>
 
+                        {safetyProblems.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1.5 text-[10px] text-red-600 font-medium mt-1">
+                            <FileWarning size={10} /> {safetyProblems.join(' · ')}
+                            {file.status === 'pending' && (
+                              <button
+                                onClick={() => onUpdate(file.id, { suggestedName: getSafeName(file, file.analysis!.suggestedName) })}
+                                className="flex items-center gap-1 bg-red-50 border border-red-200 hover:bg-red-100 px-1.5 rounded"
+                              >
+                                <Wand2 size={10} /> Fix: {getSafeName(file, file.analysis.suggestedName)}
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {conflict && (
+                          <div className="flex flex-wrap items-center gap-1.5 text-[10px] text-red-600 font-medium mt-1">
+                            <Copy size={10} />
+                            {conflict.source === 'drive'
+                              ? `"${conflict.conflictsWith}" already exists in the target folder`
+                              : `"${conflict.conflictsWith}" in this batch gets the same name and folder`}
+                            {file.status === 'pending' && (
+                              <button
+                                onClick={() => onUpdate(file.id, { suggestedName: conflict.suggestion })}
+                                className="flex items-center gap-1 bg-red-50 border border-red-200 hover:bg-red-100 px-1.5 rounded"
+                              >
+                                <Wand2 size={10} /> Rename to {conflict.suggestion}
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {namingIssue && (
+                          <div className="flex flex-wrap items-center gap-1.5 text-[10px] text-amber-700 font-medium mt-1">
+                            <AlertTriangle size={10} />
+                            <span title={namingIssue.template}>Does not follow the naming convention</span>
+                            {namingIssue.fix ? (
+                              file.status === 'pending' && (
+                                <button
+                                  onClick={() => onUpdate(file.id, { suggestedName: namingIssue.fix })}
+                                  className="flex items-center gap-1 bg-amber-50 border border-amber-200 hover:bg-amber-100 px-1.5 rounded"
+                                  title={`Rename to "${namingIssue.fix}"`}
+                                >
+                                  <Wand2 size={10} /> Fix: {namingIssue.fix}
+                                </button>
+                              )
+                            ) : (
+                              <span className="text-slate-500">· missing {namingIssue.missing.map(k => `{${k}}`).join(', ')}</span>
+                            )}
+                          </div>
+                        )}
+
+                        {file.status === 'error' && file.error && (
+                          <div className="flex items-start gap-1.5 text-[10px] text-red-600 font-medium mt-1">
+                            <AlertTriangle size={10} className="flex-shrink-0 mt-0.5" /> Sync failed: {file.error}
+                          </div>
+                        )}
+
+                        {file.sharing && Object.keys(file.sharing.risks).length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1 mt-1">
+                            {Array.from(new Set(Object.values(file.sharing.risks))).map(risk => (
+                              <SharingRiskBadge key={risk} risk={risk} />
+                            ))}
+                            {file.sharing.remediations.some(r => r.enabled) && (
+                              <span className="text-[10px] text-slate-500">
+                                · {file.sharing.remediations.filter(r => r.enabled).length} sharing fixes on sync
+                              </span>
+                            )}
+                          </div>
+                        )}
+
+                        {file.previousClassification && (
+                          <div className="flex items-center gap-1.5 text-[10px] text-slate-500 font-medium mt-1">
+                            <History size={10} /> Previously classified as {file.previousClassification.category} on {new Date(file.previousClassification.analyzedAt).toLocaleDateString()}
+                          </div>
+                        )}
+
                         {file.analysis?.shouldArchive && (
                           <div className="flex items-center gap-1.5 text-[10px] text-amber-600 font-medium mt-1">
                             <Archive size={10} /> Recommended for Archive
                           </div>
                         )}
-                        <div className="text-[10px] text-slate-400 italic mt-1 line-clamp-2">
-                          "{file.analysis?.reasoning}"
-                        </div>
+                        {file.piiFindings && file.piiFindings.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1 mt-1">
+                            <ScanEye size={10} className="text-rose-500" />
+                            {file.piiFindings.map(finding => (
+                              <span key={finding.detector} className="text-[10px] font-medium bg-rose-50 text-rose-700 border border-rose-100 px-1.5 rounded">
+                                {getDetectorLabel(finding.detector)} ×{finding.count}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {file.analysis.matchedRules && file.analysis.matchedRules.length > 0 && (
+                          <div className="flex items-center gap-1.5 text-[10px] text-teal-700 font-medium mt-1">
+                            <ListChecks size={10} /> Rule: {file.analysis.matchedRules.join(', ')}
+                          </div>
+                        )}
+                        {file.analysis.source !== 'rule' && (
+                          <div className="text-[10px] text-slate-400 italic mt-1 line-clamp-2">
+                            "{file.analysis.reasoning}"
+                          </div>
+                        )}
                       </div>
                     )}
                   </td>
 
                   <td className="p-4 align-top pt-6">
-                    <CategoryBadge category={file.analysis?.category} />
+                    <CategoryBadge category={file.analysis?.category} taxonomy={taxonomy} />
                   </td>
 
                   <td className="p-4 text-right align-top pt-5">
@@ -296,6 +494,7 @@ export const ReviewTable: React.FC<Props> = ({ files, onApprove, onReject, onApp
             }))}
           </tbody>
         </table>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { ClassificationRule, RuleMatcher, RuleAction, CategoryDefinition, SensitivityLevel } from '../types';
+import { getCategoryLabel } from '../services/taxonomyService';
+
+interface Props {
+  rules: ClassificationRule[];
+  taxonomy: CategoryDefinition[];
+  onChange: (rules: ClassificationRule[]) => void;
+}
+
+const inputClass = "px-2 py-1.5 bg-slate-50 border border-slate-200 rounded text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500 w-full";
+
+// Empty inputs clear the field instead of storing 0 / ''
+const toNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
+const toText = (value: string): string | undefined => value === '' ? undefined : value;
+
+export const RuleEditor: React.FC<Props> = ({ rules, taxonomy, onChange }) => {
+  const update = (id: string, updates: Partial<ClassificationRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...updates } : r));
+  };
+
+  const updateMatch = (rule: ClassificationRule, updates: Partial<RuleMatcher>) => {
+    update(rule.id, { match: { ...rule.match, ...updates } });
+  };
+
+  const updateAction = (rule: ClassificationRule, updates: Partial<RuleAction>) => {
+    update(rule.id, { action: { ...rule.action, ...updates } });
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...rules,
+      { id: `rule_${Date.now()}`, name: `Rule ${rules.length + 1}`, enabled: true, match: {}, action: {} }
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-xs text-slate-400 italic">No rules yet. Every file is classified by the model.</p>
+      )}
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} className={`border rounded-lg p-3 space-y-2 ${rule.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-mono text-slate-400 w-5">{index + 1}.</span>
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => update(rule.id, { enabled: e.target.checked })}
+              title="Enabled"
+            />
+            <input
+              type="text"
+              value={rule.name}
+              onChange={(e) => update(rule.id, { name: e.target.value })}
+              className={`${inputClass} flex-1 font-semibold`}
+            />
+            <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30">
+              <ArrowUp size={14} />
+            </button>
+            <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30">
+              <ArrowDown size={14} />
+            </button>
+            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-1 text-slate-300 hover:text-red-500" title="Remove rule">
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          <div>
+            <p className="text-[10px] font-bold text-slate-500 mb-1">WHEN</p>
+            <div className="grid grid-cols-3 gap-2">
+              <input className={inputClass} placeholder="Name regex, e.g. INV-\d+" value={rule.match.nameRegex || ''}
+                onChange={(e) => updateMatch(rule, { nameRegex: toText(e.target.value) })} />
+              <input className={inputClass} placeholder="Mime type, e.g. image/*" value={rule.match.mimeType || ''}
+                onChange={(e) => updateMatch(rule, { mimeType: toText(e.target.value) })} />
+              <input className={inputClass} placeholder="Parent folder, e.g. Scans" value={rule.match.parentFolder || ''}
+                onChange={(e) => updateMatch(rule, { parentFolder: toText(e.target.value) })} />
+              <div className="flex gap-1">
+                <input type="number" className={inputClass} placeholder="Min KB" value={rule.match.minSizeKb ?? ''}
+                  onChange={(e) => updateMatch(rule, { minSizeKb: toNumber(e.target.value) })} />
+                <input type="number" className={inputClass} placeholder="Max KB" value={rule.match.maxSizeKb ?? ''}
+                  onChange={(e) => updateMatch(rule, { maxSizeKb: toNumber(e.target.value) })} />
+              </div>
+              <div className="flex gap-1">
+                <input type="number" className={inputClass} placeholder="Min age (days)" value={rule.match.minAgeDays ?? ''}
+                  onChange={(e) => updateMatch(rule, { minAgeDays: toNumber(e.target.value) })} />
+                <input type="number" className={inputClass} placeholder="Max age (days)" value={rule.match.maxAgeDays ?? ''}
+                  onChange={(e) => updateMatch(rule, { maxAgeDays: toNumber(e.target.value) })} />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[10px] font-bold text-slate-500 mb-1">THEN</p>
+            <div className="grid grid-cols-2 gap-2">
+              <select className={inputClass} value={rule.action.category || ''}
+                onChange={(e) => updateAction(rule, { category: toText(e.target.value) })}>
+                <option value="">Category: model decides</option>
+                {taxonomy.map(c => <option key={c.id} value={getCategoryLabel(c)}>{getCategoryLabel(c)}</option>)}
+              </select>
+              <select className={inputClass} value={rule.action.sensitivity || ''}
+                onChange={(e) => updateAction(rule, { sensitivity: toText(e.target.value) as SensitivityLevel | undefined })}>
+                <option value="">Sensitivity: model decides</option>
+                <option value="Normal">Normal</option>
+                <option value="Confidential">Confidential</option>
+                <option value="High Risk">High Risk</option>
+              </select>
+              <input className={inputClass} placeholder="Path, e.g. 03_Finance/Invoices/{YYYY}" value={rule.action.path || ''}
+                onChange={(e) => updateAction(rule, { path: toText(e.target.value) })} />
+              <input className={inputClass} placeholder="Rename, e.g. {YYYY-MM-DD} {basename}.{ext}" value={rule.action.renameTemplate || ''}
+                onChange={(e) => updateAction(rule, { renameTemplate: toText(e.target.value) })} />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={handleAdd}
+        className="flex items-center gap-1.5 text-xs font-medium text-indigo-600 border border-indigo-200 bg-indigo-50 hover:bg-indigo-100 px-3 py-1.5 rounded-lg"
+      >
+        <Plus size={14} /> Add Rule
+      </button>
+    </div>
+  );
+};
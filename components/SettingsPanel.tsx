@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { X, Save, Settings, AlertTriangle } from 'lucide-react';
+import { AppSettings, AnalysisSettings, ProviderSettings, LlmProviderId, MetadataSettings } from '../types';
+import { DEFAULT_MODELS } from '../services/llmProvider';
+import { validateTaxonomy } from '../services/taxonomyService';
+import { validateRules } from '../services/ruleEngine';
+import { validateNamingTemplates } from '../services/namingConvention';
+import { isValidBaseUrl } from '../services/openAiCompatibleProvider';
+import { TaxonomyEditor } from './TaxonomyEditor';
+import { RuleEditor } from './RuleEditor';
+
+interface Props {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const NumberField: React.FC<{
+  label: string;
+  hint: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}> = ({ label, hint, value, min, max, onChange }) => (
+  <div>
+    <label className="text-xs font-bold text-slate-700 ml-1 mb-1 block">{label}</label>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(Math.min(max, Math.max(min, parseInt(e.target.value || '0'))))}
+      className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    />
+    <p className="text-[10px] text-slate-400 mt-1 ml-1">{hint}</p>
+  </div>
+);
+
+const CheckboxField: React.FC<{
+  label: string;
+  hint: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}> = ({ label, hint, checked, onChange }) => (
+  <label className="flex items-start gap-3 cursor-pointer">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="mt-0.5 w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+    />
+    <div>
+      <span className="text-sm text-slate-700">{label}</span>
+      <p className="text-[10px] text-slate-400">{hint}</p>
+    </div>
+  </label>
+);
+
+export const SettingsPanel: React.FC<Props> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+
+  const updateAnalysis = (updates: Partial<AnalysisSettings>) => {
+    setDraft(prev => ({ ...prev, analysis: { ...prev.analysis, ...updates } }));
+  };
+
+  const updateProvider = (updates: Partial<ProviderSettings>) => {
+    setDraft(prev => ({ ...prev, provider: { ...prev.provider, ...updates } }));
+  };
+
+  const updateMetadata = (updates: Partial<MetadataSettings>) => {
+    setDraft(prev => ({ ...prev, metadata: { ...prev.metadata, ...updates } }));
+  };
+
+  const errors = [...validateTaxonomy(draft.taxonomy), ...validateNamingTemplates(draft.taxonomy), ...validateRules(draft.rules)];
+  if (draft.provider.provider === 'openai-compatible' && !isValidBaseUrl(draft.provider.baseUrl)) {
+    errors.push("The server base URL must be a full http:// or https:// address, e.g. http://localhost:11434/v1.");
+  }
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl border border-slate-200 max-w-2xl w-full max-h-full flex flex-col">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Settings size={18} className="text-indigo-600" /> Settings
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-full hover:bg-slate-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-8">
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-1">Model Provider</h3>
+            <p className="text-xs text-slate-500 mb-4">
+              Use an OpenAI-compatible server (e.g. Ollama or llama.cpp) to keep file content off Google's API.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-xs font-bold text-slate-700 ml-1 mb-1 block">PROVIDER</label>
+                <select
+                  value={draft.provider.provider}
+                  onChange={(e) => updateProvider({ provider: e.target.value as LlmProviderId, model: '' })}
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="gemini">Google Gemini (session API key)</option>
+                  <option value="openai-compatible">OpenAI-compatible server</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs font-bold text-slate-700 ml-1 mb-1 block">MODEL</label>
+                <input
+                  type="text"
+                  value={draft.provider.model}
+                  onChange={(e) => updateProvider({ model: e.target.value })}
+                  placeholder={DEFAULT_MODELS[draft.provider.provider]}
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              {draft.provider.provider === 'openai-compatible' && (
+                <>
+                  <div>
+                    <label className="text-xs font-bold text-slate-700 ml-1 mb-1 block">BASE URL</label>
+                    <input
+                      type="text"
+                      value={draft.provider.baseUrl}
+                      onChange={(e) => updateProvider({ baseUrl: e.target.value })}
+                      placeholder="http://localhost:11434/v1"
+                      className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-bold text-slate-700 ml-1 mb-1 block">API KEY (OPTIONAL)</label>
+                    <input
+                      type="password"
+                      value={draft.provider.apiKey}
+                      onChange={(e) => updateProvider({ apiKey: e.target.value })}
+                      className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-1">Batch Analysis</h3>
+            <p className="text-xs text-slate-500 mb-4">Large batches are split into chunks. Failed chunks are retried with exponential backoff.</p>
+            <div className="grid grid-cols-3 gap-4">
+              <NumberField
+                label="CHUNK SIZE"
+                hint="Files per model request"
+                value={draft.analysis.chunkSize}
+                min={1}
+                max={100}
+                onChange={(chunkSize) => updateAnalysis({ chunkSize })}
+              />
+              <NumberField
+                label="CONCURRENCY"
+                hint="Chunks analyzed in parallel"
+                value={draft.analysis.concurrency}
+                min={1}
+                max={8}
+                onChange={(concurrency) => updateAnalysis({ concurrency })}
+              />
+              <NumberField
+                label="MAX RETRIES"
+                hint="On rate limits and server errors"
+                value={draft.analysis.maxRetries}
+                min={0}
+                max={6}
+                onChange={(maxRetries) => updateAnalysis({ maxRetries })}
+              />
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-1">Drive Metadata</h3>
+            <p className="text-xs text-slate-500 mb-4">What a sync writes back to each file besides its new name and folder. Reverting a batch removes it again.</p>
+            <div className="space-y-3">
+              <CheckboxField
+                label="Store the classification as app properties"
+                hint="Category, sensitivity, date, model and prompt version; hidden from other apps, searchable by this one"
+                checked={draft.metadata.writeAppProperties}
+                onChange={(writeAppProperties) => updateMetadata({ writeAppProperties })}
+              />
+              <CheckboxField
+                label="Add a summary to the file description"
+                hint="One line with the category and reasoning, visible in Drive's details pane"
+                checked={draft.metadata.writeDescription}
+                onChange={(writeDescription) => updateMetadata({ writeDescription })}
+              />
+              <CheckboxField
+                label="Skip previously classified files"
+                hint="Leave files that already carry a classification out of new batches"
+                checked={draft.metadata.skipPreviouslyClassified}
+                onChange={(skipPreviouslyClassified) => updateMetadata({ skipPreviouslyClassified })}
+              />
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-1">Category Taxonomy</h3>
+            <p className="text-xs text-slate-500 mb-4">Top-level folders. They drive the prompt, the response schema, the badges and the sidebar.</p>
+            <TaxonomyEditor
+              taxonomy={draft.taxonomy}
+              onChange={(taxonomy) => setDraft(prev => ({ ...prev, taxonomy }))}
+            />
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-700 mb-1">Classification Rules</h3>
+            <p className="text-xs text-slate-500 mb-4">
+              Checked in order before the model runs; the first matching rule wins for each field.
+              Files whose category, path and sensitivity are all set by rules skip the model.
+            </p>
+            <RuleEditor
+              rules={draft.rules}
+              taxonomy={draft.taxonomy}
+              onChange={(rules) => setDraft(prev => ({ ...prev, rules }))}
+            />
+          </section>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="mx-6 mb-2 bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg text-xs space-y-1">
+            {errors.map(err => (
+              <div key={err} className="flex items-center gap-2"><AlertTriangle size={12} /> {err}</div>
+            ))}
+          </div>
+        )}
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={errors.length > 0}
+            className="bg-indigo-600 text-white px-5 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+          >
+            <Save size={16} /> Save Settings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
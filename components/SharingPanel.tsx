@@ -0,0 +1,128 @@
+import React from 'react';
+import { Globe, Building2, UserPen, Eye, Lock, Check, CheckCircle2, AlertTriangle, RefreshCw, Users } from 'lucide-react';
+import { ProcessedFile, SharingRisk } from '../types';
+import { AUDITED_SENSITIVITIES, SHARING_RISK_LABELS, describeGrantee, describeRemediation, getRoleLabel } from '../services/sharingAuditService';
+
+interface Props {
+  files: ProcessedFile[];
+  onApprove: (id: string) => void;
+  onToggleRemediation: (id: string, permissionId: string) => void;
+}
+
+const RISK_STYLES: Record<SharingRisk, { icon: React.ElementType; className: string }> = {
+  'public': { icon: Globe, className: 'bg-rose-50 text-rose-700 border-rose-200' },
+  'external-domain': { icon: Building2, className: 'bg-rose-50 text-rose-700 border-rose-200' },
+  'external-editor': { icon: UserPen, className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  'external': { icon: Eye, className: 'bg-slate-100 text-slate-600 border-slate-200' }
+};
+
+export const SharingRiskBadge: React.FC<{ risk: SharingRisk }> = ({ risk }) => {
+  const { icon: Icon, className } = RISK_STYLES[risk];
+  return (
+    <span className={`flex items-center gap-1 text-[10px] font-bold border px-1.5 py-0.5 rounded ${className}`}>
+      <Icon size={10} /> {SHARING_RISK_LABELS[risk]}
+    </span>
+  );
+};
+
+/**
+ * Who can access each Confidential or High Risk file. Ticked fixes are applied when the file is approved and synced.
+ */
+export const SharingPanel: React.FC<Props> = ({ files, onApprove, onToggleRemediation }) => {
+  const audited = files.filter(f => f.sharing);
+  const pendingCount = files.filter(f => f.analysis && !f.sharing && AUDITED_SENSITIVITIES.includes(f.analysis.sensitivity)).length;
+
+  if (audited.length === 0) {
+    return (
+      <div className="p-12 text-center text-slate-400">
+        <div className="flex flex-col items-center gap-2">
+          {pendingCount > 0 ? <RefreshCw size={24} className="opacity-40 animate-spin" /> : <Users size={24} className="opacity-20" />}
+          <p>{pendingCount > 0 ? `Checking sharing of ${pendingCount} sensitive files…` : "No sensitive Drive files in this batch."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Files with something to fix first
+  const sorted = [...audited].sort((a, b) => Object.keys(b.sharing!.risks).length - Object.keys(a.sharing!.risks).length);
+
+  return (
+    <div className="p-4 space-y-4">
+      <p className="text-xs text-slate-500">
+        Sharing of Confidential and High Risk files. Ticked fixes are applied together with the rename when the file is approved and synced, and can be reverted with the batch.
+      </p>
+      {sorted.map(file => {
+        const sharing = file.sharing!;
+        const isLocked = file.status !== 'pending';
+        const riskCount = Object.keys(sharing.risks).length;
+
+        return (
+          <div key={file.id} className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex justify-between items-center gap-3">
+              <div className="flex items-center gap-2 text-xs font-semibold text-slate-600 overflow-hidden">
+                <span className="truncate" title={file.name}>{file.analysis?.suggestedName || file.name}</span>
+                <span className="font-normal text-slate-400 flex-shrink-0">· {file.analysis?.sensitivity}</span>
+              </div>
+              {riskCount === 0 ? (
+                <span className="flex items-center gap-1 text-[10px] font-bold text-green-600 flex-shrink-0">
+                  <Lock size={12} /> NOT SHARED OUTSIDE
+                </span>
+              ) : file.status === 'pending' ? (
+                <button
+                  onClick={() => onApprove(file.id)}
+                  className="flex items-center gap-1 text-xs font-medium text-green-700 bg-green-50 border border-green-200 hover:bg-green-100 px-2.5 py-1 rounded flex-shrink-0"
+                >
+                  <Check size={12} /> Approve with fixes
+                </button>
+              ) : (
+                <span className="flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase flex-shrink-0">
+                  <CheckCircle2 size={12} /> {file.status}
+                </span>
+              )}
+            </div>
+
+            {sharing.error ? (
+              <div className="px-4 py-2 text-xs text-red-600 flex items-center gap-1.5">
+                <AlertTriangle size={12} /> Could not read sharing: {sharing.error}
+              </div>
+            ) : (
+              <div className="divide-y divide-slate-100">
+                {sharing.permissions.map(permission => {
+                  const risk = sharing.risks[permission.id];
+                  const remediation = sharing.remediations.find(r => r.permissionId === permission.id);
+                  return (
+                    <div key={permission.id} className={`flex items-center gap-3 px-4 py-2 ${risk && risk !== 'external' ? 'bg-rose-50/30' : ''}`}>
+                      <div className="flex-1 overflow-hidden">
+                        <div className="text-sm text-slate-700 truncate">{describeGrantee(permission)}</div>
+                        <div className="text-[10px] text-slate-400 flex gap-2">
+                          <span>{getRoleLabel(permission.role)}</span>
+                          {permission.inherited && <><span>•</span><span>inherited from a folder or shared drive</span></>}
+                          {permission.allowFileDiscovery && <><span>•</span><span>findable in search</span></>}
+                        </div>
+                      </div>
+                      {risk && <SharingRiskBadge risk={risk} />}
+                      {remediation && (
+                        <label
+                          title={describeRemediation(remediation.action, permission)}
+                          className={`flex items-center gap-1.5 text-xs text-slate-600 ${isLocked ? 'opacity-50' : 'cursor-pointer'}`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={remediation.enabled}
+                            disabled={isLocked}
+                            onChange={() => onToggleRemediation(file.id, permission.id)}
+                          />
+                          {remediation.action === 'remove' ? 'Remove access' : 'Make viewer'}
+                        </label>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { History, Undo2, FolderPlus, CheckCircle2, Users } from 'lucide-react';
+import { SyncJournal } from '../types';
+
+interface Props {
+  journal: SyncJournal;
+  isReverting: boolean;
+  onRevert: () => void;
+}
+
+export const SyncJournalPanel: React.FC<Props> = ({ journal, isReverting, onRevert }) => {
+  const applied = journal.entries.filter(e => e.status === 'applied').length;
+  const reverted = journal.entries.filter(e => e.status === 'reverted').length;
+  const sharingChanges = journal.entries.reduce((n, e) => n + (e.permissionChanges?.length || 0), 0);
+  const canRevert = applied > 0 && !isReverting;
+
+  return (
+    <div className="mb-6 bg-white border border-slate-200 rounded-lg p-4 flex items-center justify-between gap-4 shadow-sm">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-slate-100 rounded text-slate-500">
+          <History size={16} />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-slate-700">
+            Last sync: {new Date(journal.createdAt).toLocaleString()}
+          </p>
+          <div className="flex gap-3 text-xs text-slate-500 mt-0.5">
+            <span>{applied} files changed</span>
+            <span className="flex items-center gap-1"><FolderPlus size={12} /> {journal.createdFolders.length} folders created</span>
+            {sharingChanges > 0 && <span className="flex items-center gap-1"><Users size={12} /> {sharingChanges} sharing changes</span>}
+            {reverted > 0 && <span className="text-indigo-600">{reverted} reverted</span>}
+            {journal.status === 'revert_failed' && <span className="text-red-600">Some files could not be reverted</span>}
+          </div>
+        </div>
+      </div>
+
+      {journal.status === 'reverted' ? (
+        <span className="flex items-center gap-1.5 text-xs font-bold text-indigo-600 bg-indigo-50 border border-indigo-100 px-2 py-1 rounded">
+          <CheckCircle2 size={14} /> REVERTED
+        </span>
+      ) : (
+        <button
+          onClick={onRevert}
+          disabled={!canRevert}
+          className="flex items-center gap-2 text-sm font-medium text-red-600 border border-red-200 bg-red-50 hover:bg-red-100 px-4 py-2 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Undo2 size={16} /> Revert this batch
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Plus, Trash2, RotateCcw, Folder } from 'lucide-react';
+import { CategoryDefinition, CategoryColor, CategoryIcon } from '../types';
+import { DEFAULT_TAXONOMY, getCategoryLabel } from '../services/taxonomyService';
+import { NAMING_PLACEHOLDERS } from '../services/namingConvention';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from './categoryStyles';
+
+interface Props {
+  taxonomy: CategoryDefinition[];
+  onChange: (taxonomy: CategoryDefinition[]) => void;
+}
+
+const inputClass = "px-2 py-1.5 bg-slate-50 border border-slate-200 rounded text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const TaxonomyEditor: React.FC<Props> = ({ taxonomy, onChange }) => {
+  const update = (id: string, updates: Partial<CategoryDefinition>) => {
+    onChange(taxonomy.map(c => c.id === id ? { ...c, ...updates } : c));
+  };
+
+  const setArchive = (id: string) => {
+    onChange(taxonomy.map(c => ({ ...c, isArchive: c.id === id })));
+  };
+
+  const handleAdd = () => {
+    const nextPrefix = Math.max(0, ...taxonomy.filter(c => !c.isArchive).map(c => c.prefix)) + 1;
+    onChange([
+      ...taxonomy,
+      { id: `category_${Date.now()}`, name: 'New_Category', description: '', color: 'indigo', icon: 'folder', prefix: nextPrefix }
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {taxonomy.map(category => {
+        const Icon = CATEGORY_ICONS[category.icon] || Folder;
+        return (
+          <div key={category.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Icon size={16} className={`flex-shrink-0 ${CATEGORY_COLORS[category.color]?.icon}`} />
+              <input
+                type="number"
+                min={0}
+                max={99}
+                value={category.prefix}
+                onChange={(e) => update(category.id, { prefix: parseInt(e.target.value || '0') })}
+                className={`${inputClass} w-16`}
+                title="Numeric prefix"
+              />
+              <input
+                type="text"
+                value={category.name}
+                onChange={(e) => update(category.id, { name: e.target.value })}
+                className={`${inputClass} flex-1`}
+                placeholder="Name"
+              />
+              <select
+                value={category.color}
+                onChange={(e) => update(category.id, { color: e.target.value as CategoryColor })}
+                className={inputClass}
+              >
+                {Object.keys(CATEGORY_COLORS).map(color => <option key={color} value={color}>{color}</option>)}
+              </select>
+              <select
+                value={category.icon}
+                onChange={(e) => update(category.id, { icon: e.target.value as CategoryIcon })}
+                className={inputClass}
+              >
+                {Object.keys(CATEGORY_ICONS).map(icon => <option key={icon} value={icon}>{icon}</option>)}
+              </select>
+              <button
+                onClick={() => onChange(taxonomy.filter(c => c.id !== category.id))}
+                className="p-1.5 text-slate-300 hover:text-red-500 rounded"
+                title="Remove category"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <input
+              type="text"
+              value={category.description}
+              onChange={(e) => update(category.id, { description: e.target.value })}
+              className={`${inputClass} w-full text-xs`}
+              placeholder="What belongs here? (sent to the model)"
+            />
+            <input
+              type="text"
+              value={category.nameTemplate || ''}
+              onChange={(e) => update(category.id, { nameTemplate: e.target.value || undefined })}
+              className={`${inputClass} w-full text-xs font-mono`}
+              placeholder="Naming convention, e.g. {YYYY-MM-DD} {Counterparty} - {Doc type}.{ext}"
+              title={NAMING_PLACEHOLDERS.map(p => `{${p.key}}: ${p.description}`).join('\n')}
+            />
+            <div className="flex justify-between items-center text-[10px] text-slate-400">
+              <span className="font-mono">{getCategoryLabel(category)}</span>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="archive-category"
+                  checked={!!category.isArchive}
+                  onChange={() => setArchive(category.id)}
+                />
+                Archive category
+              </label>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1.5 text-xs font-medium text-indigo-600 border border-indigo-200 bg-indigo-50 hover:bg-indigo-100 px-3 py-1.5 rounded-lg"
+        >
+          <Plus size={14} /> Add Category
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_TAXONOMY)}
+          className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-slate-700 px-3 py-1.5 rounded-lg"
+        >
+          <RotateCcw size={14} /> Reset to Defaults
+        </button>
+      </div>
+    </div>
+  );
+};
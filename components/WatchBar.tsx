@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, Sparkles, X, RefreshCw } from 'lucide-react';
+import { DriveInfo, DriveWatch } from '../types';
+import { getWatch, startWatching, stopWatching, collectNewFiles, completeWatchRun } from '../services/watchService';
+
+interface Props {
+  drive: DriveInfo;
+  disabled: boolean;
+  // Resolves once the files have been handed to a new review batch
+  onNewFiles: (files: any[]) => Promise<boolean>; // false when no batch was started
+}
+
+/**
+ * Watch mode: remembers where the drive's Changes feed stood, then queues only what is new since the last run.
+ */
+export const WatchBar: React.FC<Props> = ({ drive, disabled, onNewFiles }) => {
+  const driveId = drive.isShared ? drive.id : undefined;
+  const [watch, setWatch] = useState<DriveWatch | null>(() => getWatch(driveId));
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setWatch(getWatch(driveId));
+    setMessage(null);
+  }, [drive.id]);
+
+  const handleStart = async () => {
+    setBusy(true);
+    try {
+      setWatch(await startWatching(drive));
+      setMessage("Watching. Files created or changed from now on will show up here.");
+    } catch (err: any) {
+      alert(`Could not start watching: ${err.result?.error?.message || err.message || err}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStop = () => {
+    stopWatching(driveId);
+    setWatch(null);
+    setMessage(null);
+  };
+
+  const handleOrganizeNew = async () => {
+    if (!watch) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const { files, nextToken, ownChanges } = await collectNewFiles(watch);
+      if (files.length === 0) {
+        setWatch(completeWatchRun(watch, nextToken));
+        setMessage(`Nothing new${ownChanges > 0 ? ` (${ownChanges} changes made by this app were skipped)` : ''}.`);
+        setBusy(false);
+        return;
+      }
+      // The token only moves on once the batch exists, so a failed run can simply be repeated
+      if (!(await onNewFiles(files))) {
+        setBusy(false);
+        return;
+      }
+      completeWatchRun(watch, nextToken);
+    } catch (err: any) {
+      console.error(err);
+      alert(`Could not read changes: ${err.result?.error?.message || err.message || err}`);
+      setBusy(false);
+    }
+  };
+
+  const since = watch ? new Date(watch.lastRunAt || watch.startedAt).toLocaleString() : '';
+
+  return (
+    <div className="px-4 py-2 border-b border-slate-100 bg-slate-50/60 flex items-center justify-between gap-3 text-xs">
+      {watch ? (
+        <>
+          <span className="flex items-center gap-1.5 text-slate-500 truncate">
+            <Eye size={12} className="text-blue-500 flex-shrink-0" />
+            {message || `Watching ${watch.driveName} · last run ${since}`}
+          </span>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <button
+              onClick={handleOrganizeNew}
+              disabled={disabled || busy}
+              className="flex items-center gap-1.5 font-medium text-white bg-blue-600 hover:bg-blue-700 px-2.5 py-1 rounded-lg disabled:opacity-50"
+            >
+              {busy ? <RefreshCw size={12} className="animate-spin" /> : <Sparkles size={12} />} Organize what's new
+            </button>
+            <button onClick={handleStop} disabled={busy} className="p-1 text-slate-400 hover:text-red-600" title="Stop watching">
+              <X size={14} />
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <span className="text-slate-400 truncate">{message || "Watch this drive to organize only what's new next time."}</span>
+          <button
+            onClick={handleStart}
+            disabled={disabled || busy}
+            className="flex items-center gap-1.5 font-medium text-blue-600 bg-white border border-blue-200 hover:bg-blue-50 px-2.5 py-1 rounded-lg disabled:opacity-50 flex-shrink-0"
+          >
+            <Eye size={12} /> Watch for new files
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
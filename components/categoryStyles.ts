@@ -0,0 +1,34 @@
+import { Briefcase, User, DollarSign, Shield, Image, GraduationCap, Layout, Archive, Users, Code, Folder, Heart, Building2, LucideIcon } from 'lucide-react';
+import { CategoryColor, CategoryIcon } from '../types';
+
+// Tailwind classes are spelled out in full so they survive class scanning
+export const CATEGORY_COLORS: Record<CategoryColor, { badge: string; icon: string; hex: string }> = {
+  blue: { badge: 'bg-blue-100 text-blue-700 border-blue-200', icon: 'text-blue-500', hex: '#3b82f6' },
+  green: { badge: 'bg-green-100 text-green-700 border-green-200', icon: 'text-green-500', hex: '#22c55e' },
+  emerald: { badge: 'bg-emerald-100 text-emerald-700 border-emerald-200', icon: 'text-emerald-600', hex: '#10b981' },
+  red: { badge: 'bg-red-100 text-red-700 border-red-200', icon: 'text-red-500', hex: '#ef4444' },
+  purple: { badge: 'bg-purple-100 text-purple-700 border-purple-200', icon: 'text-purple-500', hex: '#a855f7' },
+  yellow: { badge: 'bg-yellow-100 text-yellow-700 border-yellow-200', icon: 'text-yellow-500', hex: '#eab308' },
+  orange: { badge: 'bg-orange-100 text-orange-700 border-orange-200', icon: 'text-orange-500', hex: '#f97316' },
+  pink: { badge: 'bg-pink-100 text-pink-700 border-pink-200', icon: 'text-pink-500', hex: '#ec4899' },
+  cyan: { badge: 'bg-cyan-100 text-cyan-700 border-cyan-200', icon: 'text-cyan-500', hex: '#06b6d4' },
+  indigo: { badge: 'bg-indigo-100 text-indigo-700 border-indigo-200', icon: 'text-indigo-500', hex: '#6366f1' },
+  gray: { badge: 'bg-gray-100 text-gray-600 border-gray-200', icon: 'text-gray-500', hex: '#64748b' },
+  slate: { badge: 'bg-slate-100 text-slate-600 border-slate-200', icon: 'text-slate-400', hex: '#94a3b8' },
+};
+
+export const CATEGORY_ICONS: Record<CategoryIcon, LucideIcon> = {
+  briefcase: Briefcase,
+  user: User,
+  dollar: DollarSign,
+  shield: Shield,
+  image: Image,
+  graduation: GraduationCap,
+  layout: Layout,
+  archive: Archive,
+  users: Users,
+  code: Code,
+  folder: Folder,
+  heart: Heart,
+  building: Building2,
+};
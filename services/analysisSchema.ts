@@ -0,0 +1,99 @@
+import { AnalysisResult, CategoryDefinition, ExtractedFields, SensitivityLevel } from '../types';
+import { JsonSchema } from './llmProvider';
+import { getCategoryLabel } from './taxonomyService';
+
+const SENSITIVITY_LEVELS: SensitivityLevel[] = ['Normal', 'Confidential', 'High Risk'];
+
+export const buildResponseSchema = (taxonomy: CategoryDefinition[]): JsonSchema => ({
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      fileId: { type: 'string' },
+      category: { type: 'string', enum: taxonomy.map(getCategoryLabel) },
+      suggestedPath: { type: 'string' },
+      suggestedName: { type: 'string' },
+      shouldArchive: { type: 'boolean' },
+      sensitivity: { type: 'string', enum: SENSITIVITY_LEVELS },
+      reasoning: { type: 'string' },
+      confidence: { type: 'number' },
+      fields: {
+        type: 'object',
+        properties: {
+          documentDate: { type: 'string' },
+          counterparty: { type: 'string' },
+          docType: { type: 'string' },
+          title: { type: 'string' },
+        }
+      },
+    },
+    required: ['fileId', 'category', 'suggestedPath', 'suggestedName', 'shouldArchive', 'sensitivity', 'reasoning'],
+  }
+});
+
+// Optional in the schema; some models answer in percent, and a missing value counts as uncertain
+const normalizeConfidence = (value: unknown): number => {
+  if (typeof value !== 'number' || value < 0) return 0.5;
+  if (value > 1) return value <= 100 ? value / 100 : 0.5;
+  return value;
+};
+
+// Optional as well; unusable values are dropped one by one instead of rejecting the whole result
+const normalizeFields = (value: unknown): ExtractedFields | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const fields: ExtractedFields = {};
+  (['documentDate', 'counterparty', 'docType', 'title'] as const).forEach(key => {
+    const text = (value as any)[key];
+    if (typeof text === 'string' && text.trim()) fields[key] = text.trim();
+  });
+  if (fields.documentDate && !/^\d{4}-\d{2}-\d{2}$/.test(fields.documentDate)) delete fields.documentDate;
+  return Object.keys(fields).length > 0 ? fields : undefined;
+};
+
+/**
+ * Checks a provider's response against the analysis contract. Providers without
+ * enforced structured output can return anything, so each entry is checked field by field;
+ * invalid entries are dropped (and their files reported as failed by the caller).
+ */
+export const validateAnalysisResults = (data: unknown, taxonomy: CategoryDefinition[]): AnalysisResult[] => {
+  if (!Array.isArray(data)) {
+    throw new Error("Model response is not a list of analysis results");
+  }
+
+  const categories = new Set(taxonomy.map(getCategoryLabel));
+  const results: AnalysisResult[] = [];
+
+  for (const item of data) {
+    const problems: string[] = [];
+    if (!item || typeof item !== 'object') {
+      console.warn("Dropping invalid analysis result", item);
+      continue;
+    }
+    if (typeof item.fileId !== 'string') problems.push('fileId');
+    if (!categories.has(item.category)) problems.push('category');
+    if (typeof item.suggestedPath !== 'string') problems.push('suggestedPath');
+    if (typeof item.suggestedName !== 'string' || !item.suggestedName.trim()) problems.push('suggestedName');
+    if (typeof item.shouldArchive !== 'boolean') problems.push('shouldArchive');
+    if (!SENSITIVITY_LEVELS.includes(item.sensitivity)) problems.push('sensitivity');
+    if (typeof item.reasoning !== 'string') problems.push('reasoning');
+
+    if (problems.length > 0) {
+      console.warn(`Dropping analysis result with invalid ${problems.join(', ')}`, item);
+      continue;
+    }
+
+    results.push({
+      fileId: item.fileId,
+      category: item.category,
+      suggestedPath: item.suggestedPath,
+      suggestedName: item.suggestedName,
+      shouldArchive: item.shouldArchive,
+      sensitivity: item.sensitivity,
+      reasoning: item.reasoning,
+      confidence: normalizeConfidence(item.confidence),
+      fields: normalizeFields(item.fields)
+    });
+  }
+
+  return results;
+};
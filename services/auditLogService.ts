@@ -0,0 +1,139 @@
+import { AppliedPermissionChange, AuditLogEntry, ProcessedFile, SyncJournalEntry } from '../types';
+import { STORES, idbAdd, idbGetAll } from './indexedDb';
+import { describeAppliedChange } from './sharingAuditService';
+
+/**
+ * Appends entries to the audit log. There is deliberately no update or delete: entries are
+ * only ever added, in order.
+ */
+export const appendAuditEntries = async (entries: AuditLogEntry[]): Promise<void> => {
+  for (const entry of entries) {
+    try {
+      await idbAdd<AuditLogEntry>(STORES.AUDIT_LOG, entry);
+    } catch (err) {
+      // The change itself already happened in Drive; a missing record must at least be visible
+      console.error("Could not write audit log entry", entry, err);
+    }
+  }
+};
+
+/**
+ * Every entry, newest first.
+ */
+export const loadAuditLog = async (): Promise<AuditLogEntry[]> => {
+  try {
+    const entries = await idbGetAll<AuditLogEntry>(STORES.AUDIT_LOG);
+    return entries.sort((a, b) => (b.seq || 0) - (a.seq || 0));
+  } catch (err) {
+    console.warn("Could not load audit log", err);
+    return [];
+  }
+};
+
+export const buildSyncAuditEntry = (
+  file: ProcessedFile,
+  account: string,
+  journalId: string,
+  targetFolderId?: string
+): AuditLogEntry => ({
+  timestamp: Date.now(),
+  action: 'sync',
+  account,
+  journalId,
+  fileId: file.id,
+  oldName: file.name,
+  newName: file.analysis?.suggestedName || file.name,
+  oldParents: file.parents || [],
+  newParents: targetFolderId && !file.parents?.includes(targetFolderId) ? [targetFolderId] : file.parents || [],
+  newPath: file.analysis?.suggestedPath,
+  category: file.analysis?.category,
+  sensitivity: file.analysis?.sensitivity,
+  reasoning: file.analysis?.reasoning,
+  decidedBy: file.analysis?.source,
+  humanEdited: !!file.analysis?.edited
+});
+
+// Sharing remediations are applied after the rename / move, so they get an entry of their own
+export const buildSharingAuditEntry = (
+  file: ProcessedFile,
+  account: string,
+  journalId: string,
+  changes: AppliedPermissionChange[]
+): AuditLogEntry => {
+  const name = file.analysis?.suggestedName || file.name;
+  return {
+    timestamp: Date.now(),
+    action: 'sharing',
+    account,
+    journalId,
+    fileId: file.id,
+    oldName: name,
+    newName: name,
+    oldParents: [],
+    newParents: [],
+    sensitivity: file.analysis?.sensitivity,
+    humanEdited: false,
+    permissionChanges: changes.map(change => describeAppliedChange(change))
+  };
+};
+
+export const buildRevertAuditEntry = (entry: SyncJournalEntry, account: string, journalId: string): AuditLogEntry => ({
+  timestamp: Date.now(),
+  action: 'revert',
+  account,
+  journalId,
+  fileId: entry.fileId,
+  oldName: entry.newName,
+  newName: entry.originalName,
+  oldParents: entry.targetFolderId ? [entry.targetFolderId] : entry.originalParents,
+  newParents: entry.originalParents,
+  humanEdited: false,
+  permissionChanges: entry.permissionChanges?.filter(c => c.reverted).map(c => describeAppliedChange(c, true))
+});
+
+export const exportAuditJson = (entries: AuditLogEntry[]): string => JSON.stringify(entries, null, 2);
+
+/**
+ * Plain-text report for compliance sign-off: a summary followed by one block per change, oldest first.
+ */
+export const buildAuditReport = (entries: AuditLogEntry[]): string => {
+  const ordered = [...entries].sort((a, b) => (a.seq || 0) - (b.seq || 0));
+  const accounts = Array.from(new Set(ordered.map(e => e.account)));
+  const syncs = ordered.filter(e => e.action === 'sync');
+  const sharing = ordered.filter(e => e.action === 'sharing');
+  const actionLabels: Record<AuditLogEntry['action'], string> = { sync: 'APPLIED', sharing: 'SHARING', revert: 'REVERTED' };
+  const formatTime = (ts: number) => new Date(ts).toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+
+  const lines = [
+    'DRIVE ORGANIZER — CHANGE REPORT',
+    `Generated: ${formatTime(Date.now())}`,
+    `Period: ${ordered.length ? `${formatTime(ordered[0].timestamp)} to ${formatTime(ordered[ordered.length - 1].timestamp)}` : 'no changes'}`,
+    `Accounts: ${accounts.join(', ') || '-'}`,
+    `Changes: ${syncs.length} applied, ${sharing.length} sharing fixes, ${ordered.length - syncs.length - sharing.length} reverted`,
+    `Edited by a reviewer: ${syncs.filter(e => e.humanEdited).length}`,
+    `High Risk files: ${syncs.filter(e => e.sensitivity === 'High Risk').length}`,
+    ''
+  ];
+
+  ordered.forEach((e, i) => {
+    lines.push(`#${i + 1}  ${formatTime(e.timestamp)}  ${actionLabels[e.action]}  by ${e.account}`);
+    lines.push(`    File id:     ${e.fileId}`);
+    if (e.action === 'sharing') {
+      lines.push(`    Name:        ${e.newName}`);
+    } else {
+      lines.push(`    Name:        ${e.oldName} -> ${e.newName}`);
+      lines.push(`    Parents:     ${e.oldParents.join(', ') || '-'} -> ${e.newParents.join(', ') || '-'}${e.newPath ? ` (${e.newPath})` : ''}`);
+    }
+    e.permissionChanges?.forEach(change => lines.push(`    Sharing:     ${change}`));
+    if (e.action === 'sync') {
+      lines.push(`    Category:    ${e.category || '-'}    Sensitivity: ${e.sensitivity || '-'}`);
+      lines.push(`    Decided by:  ${e.decidedBy || 'model'}${e.humanEdited ? ', edited by reviewer' : ''}`);
+      if (e.reasoning) lines.push(`    Reasoning:   ${e.reasoning}`);
+    }
+    lines.push(`    Sync run:    ${e.journalId}`);
+    lines.push('');
+  });
+
+  lines.push('Reviewed and approved by: ______________________    Date: ____________');
+  return lines.join('\n');
+};
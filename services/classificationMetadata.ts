@@ -0,0 +1,76 @@
+import { AnalysisResult, PreviousClassification, SensitivityLevel } from '../types';
+
+// appProperties are private to this OAuth client, so plain key names cannot clash with other apps
+export const APP_PROPERTY_KEYS = ['category', 'sensitivity', 'analyzedAt', 'model', 'promptVersion'] as const;
+
+// Drive limits each appProperty to 124 bytes of UTF-8, key and value combined
+const MAX_PROPERTY_BYTES = 124;
+
+// Starts the line this app adds to a file description, so a later sync replaces it instead of adding another
+const DESCRIPTION_MARKER = '[Drive Organizer]';
+const MAX_SUMMARY_REASONING = 200;
+
+const fitProperty = (key: string, value: string): string => {
+  const encoder = new TextEncoder();
+  let fitted = value;
+  while (encoder.encode(key + fitted).length > MAX_PROPERTY_BYTES) fitted = fitted.slice(0, -1);
+  return fitted;
+};
+
+export const buildAppProperties = (
+  analysis: AnalysisResult,
+  model: string,
+  promptVersion: string,
+  analyzedAt = new Date()
+): Record<string, string> => {
+  const values: Record<typeof APP_PROPERTY_KEYS[number], string> = {
+    category: analysis.category,
+    sensitivity: analysis.sensitivity,
+    analyzedAt: analyzedAt.toISOString(),
+    // Files decided by rules alone never went through the model
+    model: analysis.source === 'rule' ? 'rules' : model,
+    promptVersion
+  };
+  const properties: Record<string, string> = {};
+  for (const key of APP_PROPERTY_KEYS) properties[key] = fitProperty(key, values[key]);
+  return properties;
+};
+
+/**
+ * Reads a classification written by an earlier sync, if the file carries one.
+ */
+export const readPreviousClassification = (appProperties?: Record<string, string>): PreviousClassification | undefined => {
+  if (!appProperties?.category || !appProperties.analyzedAt) return undefined;
+  return {
+    category: appProperties.category,
+    sensitivity: appProperties.sensitivity as SensitivityLevel | undefined,
+    analyzedAt: appProperties.analyzedAt,
+    model: appProperties.model,
+    promptVersion: appProperties.promptVersion
+  };
+};
+
+/**
+ * The properties a revert writes: each key back to its value before the sync, deleted if it had none.
+ */
+export const restoreAppProperties = (original: Record<string, string> = {}): Record<string, string | null> =>
+  Object.fromEntries(APP_PROPERTY_KEYS.map(key => [key, original[key] ?? null]));
+
+export const buildDescriptionSummary = (analysis: AnalysisResult): string => {
+  const reasoning = analysis.reasoning.length > MAX_SUMMARY_REASONING
+    ? `${analysis.reasoning.slice(0, MAX_SUMMARY_REASONING - 1)}…`
+    : analysis.reasoning;
+  return `${DESCRIPTION_MARKER} ${analysis.category} · ${analysis.sensitivity}${reasoning ? ` — ${reasoning}` : ''}`;
+};
+
+/**
+ * Appends the summary to the existing description, replacing the line an earlier sync added.
+ */
+export const mergeDescription = (existing: string | undefined, summary: string): string => {
+  const kept = (existing || '')
+    .split('\n')
+    .filter(line => !line.startsWith(DESCRIPTION_MARKER))
+    .join('\n')
+    .trimEnd();
+  return kept ? `${kept}\n${summary}` : summary;
+};
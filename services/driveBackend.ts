@@ -0,0 +1,67 @@
+import { DriveInfo, DrivePermission, PermissionRole } from '../types';
+
+/**
+ * The Drive operations the rest of the app depends on. `driveService` holds the logic
+ * (folder path resolution, move computation, content extraction) and calls a backend for the
+ * raw reads and writes, so the whole flow can run against the real API or an in-memory tree.
+ */
+
+// Metadata changes applied by a single files.update call
+export interface DriveFileUpdate {
+  name?: string;
+  addParents?: string[];
+  removeParents?: string[];
+  trashed?: boolean;
+  // Merged into the file's appProperties; a null value deletes that key
+  appProperties?: Record<string, string | null>;
+  description?: string;
+}
+
+export type MimeTypeGroup = 'pdf' | 'document' | 'spreadsheet' | 'presentation' | 'image' | 'video';
+
+// Search form fields; every field that is set must match. Dates are YYYY-MM-DD.
+export interface DriveSearchCriteria {
+  nameContains?: string;
+  fullText?: string;
+  mimeGroup?: MimeTypeGroup;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  owner?: string; // Email address, or 'me'
+  excludeParentIds?: string[]; // Skip files directly inside these folders
+}
+
+export interface DriveBackend {
+  // 'gapi' talks to Google Drive; 'memory' is the offline demo drive
+  readonly kind: 'gapi' | 'memory';
+  isConnected(): boolean;
+  // Email address of the signed-in account, recorded in the audit log
+  getAccountEmail(): Promise<string>;
+  // My Drive first, then every shared drive the user can see
+  listDrives(): Promise<DriveInfo[]>;
+  // Non-trashed children of a folder, folders first, then by name. Items use the Drive API field names.
+  // `driveId` is the shared drive the folder belongs to; omitted for My Drive.
+  listChildren(folderId: string, driveId?: string): Promise<any[]>;
+  // Changes feed: a page token marks a point in time. listChanges returns the current state of every
+  // item changed after it (trashed ones included, deleted ones omitted) and the token for the next call.
+  getStartPageToken(driveId?: string): Promise<string>;
+  listChanges(pageToken: string, driveId?: string): Promise<{ files: any[]; newStartPageToken: string }>;
+  // Non-folder files matching the criteria, most recently modified first, at most `limit` of them
+  searchFiles(criteria: DriveSearchCriteria, driveId: string | undefined, limit: number): Promise<any[]>;
+  // Text content of a file for analysis, already truncated; placeholders like "[Binary File ...]" when unreadable
+  getFileContent(fileId: string, mimeType: string, name: string, size: number): Promise<string>;
+  downloadFileBytes(fileId: string): Promise<ArrayBuffer>;
+  findFolder(name: string, parentId: string, driveId?: string): Promise<string | null>;
+  // Every non-trashed folder of a drive, with the id of the drive's root folder so paths can be built from it
+  listFolders(driveId?: string): Promise<{ rootId: string; folders: { id: string; name: string; parents: string[] }[] }>;
+  createFolder(name: string, parentId: string): Promise<string>;
+  getParents(fileId: string): Promise<string[]>;
+  updateFile(fileId: string, update: DriveFileUpdate): Promise<void>;
+  // Applies several updates in one round trip where the backend supports it.
+  // Resolves with one entry per item: null on success, otherwise that item's error.
+  updateFiles(items: { fileId: string; update: DriveFileUpdate }[]): Promise<(unknown | null)[]>;
+  listPermissions(fileId: string): Promise<DrivePermission[]>;
+  deletePermission(fileId: string, permissionId: string): Promise<void>;
+  updatePermissionRole(fileId: string, permissionId: string, role: PermissionRole): Promise<void>;
+  // Recreates a grant (used by revert); never sends a notification email
+  createPermission(fileId: string, permission: DrivePermission): Promise<void>;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchQuery, matchesMimeGroup } from './driveQuery';
+
+const BASE = "trashed = false and mimeType != 'application/vnd.google-apps.folder'";
+
+describe('buildSearchQuery', () => {
+  it('always excludes folders and trashed items', () => {
+    expect(buildSearchQuery({})).toBe(BASE);
+  });
+
+  it('escapes quotes and backslashes in values', () => {
+    expect(buildSearchQuery({ nameContains: " O'Brien\\2023 " }))
+      .toBe(`${BASE} and name contains 'O\\'Brien\\\\2023'`);
+  });
+
+  it('lists every MIME type of a group as alternatives', () => {
+    expect(buildSearchQuery({ mimeGroup: 'pdf' })).toBe(`${BASE} and mimeType = 'application/pdf'`);
+    expect(buildSearchQuery({ mimeGroup: 'image' })).toBe(`${BASE} and mimeType contains 'image/'`);
+    expect(buildSearchQuery({ mimeGroup: 'presentation' })).toMatch(/ and \(mimeType = '[^']+'( or mimeType = '[^']+'){2}\)$/);
+  });
+
+  it('treats "after" as inclusive and "before" as exclusive of that day', () => {
+    expect(buildSearchQuery({ modifiedAfter: '2022-01-01', modifiedBefore: '2023-01-01' }))
+      .toBe(`${BASE} and modifiedTime >= '2022-01-01T00:00:00' and modifiedTime < '2023-01-01T00:00:00'`);
+  });
+
+  it('adds owner and excluded parents', () => {
+    expect(buildSearchQuery({ owner: 'me', excludeParentIds: ['f1', 'f2'] }))
+      .toBe(`${BASE} and 'me' in owners and not 'f1' in parents and not 'f2' in parents`);
+  });
+
+  it('ignores blank text criteria', () => {
+    expect(buildSearchQuery({ nameContains: '  ', fullText: '', owner: ' ' })).toBe(BASE);
+  });
+});
+
+describe('matchesMimeGroup', () => {
+  it('matches exact types and prefixes', () => {
+    expect(matchesMimeGroup('text/csv', 'spreadsheet')).toBe(true);
+    expect(matchesMimeGroup('image/heic', 'image')).toBe(true);
+    expect(matchesMimeGroup('application/pdf', 'document')).toBe(false);
+  });
+});
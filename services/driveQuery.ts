@@ -0,0 +1,75 @@
+import { DriveSearchCriteria, MimeTypeGroup } from './driveBackend';
+
+// Each group matches exact MIME types plus anything under the listed prefixes
+export const MIME_TYPE_GROUPS: Record<MimeTypeGroup, { label: string; mimeTypes: string[]; prefixes?: string[] }> = {
+  pdf: { label: 'PDFs', mimeTypes: ['application/pdf'] },
+  document: {
+    label: 'Documents',
+    mimeTypes: [
+      'application/vnd.google-apps.document',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/msword',
+      'application/rtf',
+      'text/plain',
+      'text/markdown'
+    ]
+  },
+  spreadsheet: {
+    label: 'Spreadsheets',
+    mimeTypes: [
+      'application/vnd.google-apps.spreadsheet',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+      'text/csv'
+    ]
+  },
+  presentation: {
+    label: 'Presentations',
+    mimeTypes: [
+      'application/vnd.google-apps.presentation',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'application/vnd.ms-powerpoint'
+    ]
+  },
+  image: { label: 'Images', mimeTypes: [], prefixes: ['image/'] },
+  video: { label: 'Videos', mimeTypes: [], prefixes: ['video/'] }
+};
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+// Dates come from <input type="date">: "after" includes that day, "before" stops at its start
+const startOfDay = (date: string) => `${date}T00:00:00`;
+
+export const matchesMimeGroup = (mimeType: string, group: MimeTypeGroup): boolean => {
+  const { mimeTypes, prefixes = [] } = MIME_TYPE_GROUPS[group];
+  return mimeTypes.includes(mimeType) || prefixes.some(p => mimeType.startsWith(p));
+};
+
+/**
+ * Builds the files.list `q` expression for a search. Folders and trashed items are always excluded.
+ * Example: name contains 'invoice' and mimeType = 'application/pdf' and modifiedTime < '2022-01-01T00:00:00'
+ */
+export const buildSearchQuery = (criteria: DriveSearchCriteria): string => {
+  const clauses = ['trashed = false', `mimeType != '${FOLDER_MIME_TYPE}'`];
+
+  if (criteria.nameContains?.trim()) clauses.push(`name contains ${quote(criteria.nameContains.trim())}`);
+  if (criteria.fullText?.trim()) clauses.push(`fullText contains ${quote(criteria.fullText.trim())}`);
+
+  if (criteria.mimeGroup) {
+    const { mimeTypes, prefixes = [] } = MIME_TYPE_GROUPS[criteria.mimeGroup];
+    const alternatives = [
+      ...mimeTypes.map(m => `mimeType = ${quote(m)}`),
+      ...prefixes.map(p => `mimeType contains ${quote(p)}`)
+    ];
+    clauses.push(alternatives.length > 1 ? `(${alternatives.join(' or ')})` : alternatives[0]);
+  }
+
+  if (criteria.modifiedAfter) clauses.push(`modifiedTime >= ${quote(startOfDay(criteria.modifiedAfter))}`);
+  if (criteria.modifiedBefore) clauses.push(`modifiedTime < ${quote(startOfDay(criteria.modifiedBefore))}`);
+  if (criteria.owner?.trim()) clauses.push(`${quote(criteria.owner.trim())} in owners`);
+  criteria.excludeParentIds?.forEach(id => clauses.push(`not ${quote(id)} in parents`));
+
+  return clauses.join(' and ');
+};
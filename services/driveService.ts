@@ -1,3 +1,12 @@
+import { CreatedFolder, ImageAttachment, DriveFile, DriveInfo, DrivePermission, SharingRemediation, AppliedPermissionChange, FolderSummary, FolderIndex, PiiFinding } from '../types';
+import { downscaleImage, renderPdfFirstPage, isImageType, isPdfType } from './imageService';
+import { redactExcerpt } from './piiService';
+import { DriveBackend, DriveFileUpdate, DriveSearchCriteria } from './driveBackend';
+import { gapiDriveBackend, MAX_DOWNLOAD_BYTES } from './gapiDriveBackend';
+import { createMemoryDriveBackend, DriveFixture } from './memoryDriveBackend';
+import { driveScheduler, isTransientDriveError, isUnauthorizedError } from './requestScheduler';
+import { initTokenClient, requestToken, reauthenticate, reconnect, cancelReconnect, setReconnectListener, clearToken, TokenPrompt } from './tokenManager';
+
 // Type definitions for Google API globals
 declare global {
   interface Window {
@@ -6,16 +15,43 @@ declare global {
   }
 }
 
-const SCOPES = 'https://www.googleapis.com/auth/drive';
 const DISCOVERY_DOC = 'https://www.googleapis.com/discovery/v1/apis/drive/v3/rest';
 
-let tokenClient: any;
-let gapiInited = false;
-let gisInited = false;
-
 // Cache for folder paths to reduce API calls during batch operations
 const folderCache: Record<string, string> = {};
 
+let backend: DriveBackend = gapiDriveBackend;
+let accountEmail: Promise<string> | null = null;
+
+export const getDriveBackend = (): DriveBackend => backend;
+
+/**
+ * Switches every Drive call to another backend (e.g. the in-memory demo drive).
+ */
+export const setDriveBackend = (next: DriveBackend) => {
+  backend = next;
+  accountEmail = null;
+  clearFolderCache();
+};
+
+/**
+ * Forgets every resolved folder path. Needed once folders themselves were renamed or moved,
+ * since cached paths below them no longer match Drive.
+ */
+export const clearFolderCache = () => {
+  for (const key of Object.keys(folderCache)) delete folderCache[key];
+};
+
+/**
+ * Switches to an in-memory drive seeded from the bundled demo fixture.
+ */
+export const connectDemoDrive = async (): Promise<void> => {
+  const fixture = await import('./fixtures/demoDrive.json');
+  setDriveBackend(createMemoryDriveBackend(fixture.default as DriveFixture));
+};
+
+export const connectGoogleDrive = () => setDriveBackend(gapiDriveBackend);
+
 // Helper to wait for scripts to load asynchronously
 const waitForScript = (globalKey: string, timeout = 10000): Promise<void> => {
     return new Promise((resolve, reject) => {
@@ -48,7 +84,6 @@ export const initGapi = async () => {
           await window.gapi.client.init({
             discoveryDocs: [DISCOVERY_DOC],
           });
-          gapiInited = true;
           resolve();
         } catch (err: any) {
           console.error("GAPI Init Error", err);
@@ -62,187 +97,569 @@ export const initGapi = async () => {
 
 export const initGis = async (clientId: string) => {
   await waitForScript('google');
-  
-  return new Promise<void>((resolve, reject) => {
-    try {
-      tokenClient = window.google.accounts.oauth2.initTokenClient({
-        client_id: clientId,
-        scope: SCOPES,
-        callback: (resp: any) => {}, // Must be a function, even if empty initially
-      });
-      gisInited = true;
-      resolve();
-    } catch (err: any) {
-      reject(new Error(`GIS Init Failed: ${err.message || err}`));
-    }
-  });
+
+  try {
+    initTokenClient(clientId);
+    // A 401 anywhere in the Drive queue pauses it until the user is signed in again
+    driveScheduler.setAuthHandler(reauthenticate);
+  } catch (err: any) {
+    throw new Error(`GIS Init Failed: ${err.message || err}`);
+  }
 };
 
-export const requestAccessToken = (): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    if (!tokenClient) return reject(new Error("Token Client not initialized"));
-    
-    tokenClient.callback = async (resp: any) => {
-      if (resp.error) {
-        reject(resp);
-        return;
-      }
-      
-      // CRITICAL: The new GIS library does NOT set the token for gapi automatically.
-      // We must manually pass the access token to gapi.client.
-      if (resp.access_token) {
-        window.gapi.client.setToken(resp);
-        resolve();
-      } else {
-        reject(new Error("No access token received"));
-      }
-    };
+/**
+ * Gets an access token for gapi. The token is then refreshed silently before it expires; only when
+ * that fails are Drive requests held until the user reconnects (reconnectDrive).
+ * @param prompt 'consent' always shows the consent screen; '' only when Google needs the user
+ */
+export const requestAccessToken = (prompt: TokenPrompt = 'consent'): Promise<void> => {
+  return requestToken(prompt);
+};
 
-    if (window.gapi && window.gapi.client) {
-         // If a token already exists, we might want to skip? 
-         // But for explicit connect, we force prompt usually.
-    }
+/**
+ * Registers the UI asking the user to reconnect when the silent refresh failed; Drive requests wait meanwhile.
+ */
+export const onReconnectNeeded = (listener: ((needed: boolean) => void) | null) => {
+  setReconnectListener(listener);
+};
 
-    tokenClient.requestAccessToken({ prompt: 'consent' });
-  });
+// From the Reconnect button: signs in again and resumes the waiting requests
+export const reconnectDrive = (): Promise<void> => reconnect();
+
+/**
+ * Waits for a new token after a request failed with 401, through the same gate as the Drive queue,
+ * so the user is asked at most once however many requests failed. Rejects if they dismiss it.
+ */
+export const waitForReauthentication = (): Promise<void> => driveScheduler.reauthenticate();
+
+// The waiting requests fail instead
+export const dismissReconnect = () => cancelReconnect();
+
+/**
+ * Forgets the access token, stops refreshing it and fails the requests waiting for a reconnect.
+ */
+export const disconnectDrive = () => {
+  driveScheduler.setAuthHandler(null);
+  clearToken();
+  accountEmail = null;
 };
 
 /**
- * Lists files in a specific folder.
- * @param folderId The ID of the folder to list (default: 'root')
+ * Email of the signed-in account (looked up once per connection).
+ */
+export const getAccountEmail = (): Promise<string> => {
+  if (!accountEmail) {
+    accountEmail = backend.getAccountEmail().catch(err => {
+      accountEmail = null;
+      throw err;
+    });
+  }
+  return accountEmail;
+};
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * True once the active backend can make Drive calls (for gapi: initialized and holding an access token).
  */
-export const listDriveFiles = async (folderId = 'root'): Promise<any[]> => {
-  if (!gapiInited) throw new Error("GAPI not initialized");
+export const isDriveConnected = (): boolean => {
+  return backend.isConnected();
+};
+
+/**
+ * Lists My Drive followed by every shared drive the user has access to.
+ */
+export const listDrives = (): Promise<DriveInfo[]> => backend.listDrives();
 
+/**
+ * Lists files in a specific folder, following nextPageToken until every item has been returned.
+ * @param folderId The ID of the folder to list (default: 'root')
+ * @param driveId Shared drive containing the folder; omitted for My Drive
+ */
+export const listDriveFiles = async (folderId = 'root', driveId?: string): Promise<any[]> => {
   try {
-    const q = `'${folderId}' in parents and trashed = false`;
-    const response = await window.gapi.client.drive.files.list({
-      'pageSize': 50, // Increased page size
-      'fields': "nextPageToken, files(id, name, mimeType, size, modifiedTime, thumbnailLink, webViewLink, iconLink, parents)",
-      'q': q,
-      'orderBy': 'folder, name' // Folders first, then name
-    });
-    return response.result.files;
+    return await backend.listChildren(folderId, driveId);
   } catch (err) {
     console.error("Error listing files", err);
     throw err;
   }
 };
 
-export const getFileContent = async (fileId: string, mimeType: string): Promise<string> => {
-  if (!gapiInited) throw new Error("GAPI not initialized");
-  
-  try {
-    if (mimeType.startsWith('application/vnd.google-apps.')) {
-        if (mimeType.includes('document')) {
-             const response = await window.gapi.client.drive.files.export({
-                fileId: fileId,
-                mimeType: 'text/plain'
-             });
-             return response.body;
-        }
-        return "[Google App File - Content Analysis Limited]";
-    } else {
-        if (mimeType.includes('text') || mimeType.includes('json') || mimeType.includes('javascript')) {
-             const response = await window.gapi.client.drive.files.get({
-                fileId: fileId,
-                alt: 'media'
-             });
-             return response.body;
-        }
-        return "[Binary File - Analysis based on Name/Type]";
+/**
+ * Token for the current end of the Changes feed of a drive (My Drive when omitted).
+ */
+export const getChangesStartToken = (driveId?: string): Promise<string> => backend.getStartPageToken(driveId);
+
+/**
+ * Files changed since the token was issued, in their current state, with the token to continue from.
+ */
+export const listChangedFiles = (pageToken: string, driveId?: string) => backend.listChanges(pageToken, driveId);
+
+// Upper bound for a single search, so a broad query cannot queue a whole drive by accident
+export const MAX_SEARCH_RESULTS = 500;
+
+// Parent exclusions sent inside `q`; longer lists are filtered after the response to keep the URL short
+const MAX_QUERY_EXCLUSIONS = 40;
+
+/**
+ * Searches the given drive (My Drive when omitted) for files matching the criteria.
+ */
+export const searchDriveFiles = async (criteria: DriveSearchCriteria, driveId?: string): Promise<any[]> => {
+  const excluded = criteria.excludeParentIds || [];
+  const results = await backend.searchFiles(
+    { ...criteria, excludeParentIds: excluded.slice(0, MAX_QUERY_EXCLUSIONS) },
+    driveId,
+    MAX_SEARCH_RESULTS
+  );
+  return excluded.length > MAX_QUERY_EXCLUSIONS
+    ? results.filter(f => !f.parents?.some((p: string) => excluded.includes(p)))
+    : results;
+};
+
+/**
+ * Sets `parentFolderName` on files found outside a folder listing (search results, the Changes feed),
+ * so parent-folder rules match them too. Reads the drive's folders once instead of looking up each parent.
+ * @param rootName Name for files directly in the drive's root, e.g. "My Drive"
+ */
+export const withParentFolderNames = async (files: any[], driveId: string | undefined, rootName: string): Promise<any[]> => {
+  if (files.length === 0) return files;
+  const { rootId, folders } = await backend.listFolders(driveId);
+  const names = new Map(folders.map(f => [f.id, f.name]));
+  names.set(rootId, rootName);
+  return files.map(f => ({ ...f, parentFolderName: names.get(f.parents?.[0]) }));
+};
+
+/**
+ * Walks a folder subtree breadth-first and returns every non-folder file under it.
+ * Each returned file carries `folderPath`, the path relative to the starting folder.
+ * @param onProgress Called with the running number of files found
+ * @param signal Aborts the crawl between folder listings
+ */
+export const listFolderTree = async (
+  folderId: string,
+  options: { onProgress?: (found: number) => void; signal?: AbortSignal; driveId?: string } = {}
+): Promise<any[]> => {
+  const results: any[] = [];
+  const queue: { id: string; path: string }[] = [{ id: folderId, path: '' }];
+
+  while (queue.length > 0) {
+    if (options.signal?.aborted) throw new Error("Folder crawl cancelled");
+
+    const folder = queue.shift()!;
+    const children = await listDriveFiles(folder.id, options.driveId);
+
+    for (const child of children) {
+      if (child.mimeType === FOLDER_MIME_TYPE) {
+        queue.push({ id: child.id, path: folder.path ? `${folder.path}/${child.name}` : child.name });
+      } else {
+        results.push({ ...child, folderPath: folder.path });
+      }
+    }
+    options.onProgress?.(results.length);
+  }
+
+  return results;
+};
+
+// Keeps the folder index small enough for the prompt on drives with deep or very wide trees
+const FOLDER_INDEX_MAX_DEPTH = 4;
+const FOLDER_INDEX_MAX_PATHS = 300;
+
+/**
+ * Paths of the existing folders of a drive (My Drive when omitted), e.g. "03_Finance/Tax",
+ * shallowest first and alphabetical within a level. Records where the size limits cut the listing short.
+ */
+export const getFolderIndex = async (driveId?: string): Promise<FolderIndex> => {
+  const { rootId, folders } = await backend.listFolders(driveId);
+  const byParent = new Map<string, { id: string; name: string }[]>();
+  folders.forEach(folder => folder.parents.forEach(parentId => {
+    byParent.set(parentId, [...(byParent.get(parentId) || []), folder]);
+  }));
+
+  const paths: string[] = [];
+  let level = [{ id: rootId, path: '' }];
+  for (let depth = 1; depth <= FOLDER_INDEX_MAX_DEPTH && level.length > 0; depth++) {
+    const next: { id: string; path: string }[] = [];
+    for (const parent of level) {
+      const children = (byParent.get(parent.id) || [])
+        // A slash in a name cannot be told apart from a path separator
+        .filter(child => !child.name.includes('/'))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      for (const child of children) {
+        if (paths.length >= FOLDER_INDEX_MAX_PATHS) return { paths, truncatedAt: depth };
+        const path = parent.path ? `${parent.path}/${child.name}` : child.name;
+        paths.push(path);
+        next.push({ id: child.id, path });
+      }
     }
+    level = next;
+  }
+  // Folders left at the last listed level may still have subfolders
+  return level.length > 0 ? { paths, truncatedAt: FOLDER_INDEX_MAX_DEPTH + 1 } : { paths };
+};
+
+// How much of a folder's content is sent to the model when the folder is analyzed as a unit
+const FOLDER_SAMPLE_NAMES = 40;
+const FOLDER_SAMPLE_FILES = 3;
+const FOLDER_SAMPLE_CHARS = 300;
+
+/**
+ * Describes a folder by its direct children: counts, a sample of names and short excerpts of the
+ * first few readable files.
+ */
+export const summarizeFolder = async (
+  folderId: string,
+  driveId?: string
+): Promise<{ summary: FolderSummary; sampleText: string; piiFindings: PiiFinding[] }> => {
+  const children = await listDriveFiles(folderId, driveId);
+  const folders = children.filter(c => c.mimeType === FOLDER_MIME_TYPE);
+  const files = children.filter(c => c.mimeType !== FOLDER_MIME_TYPE);
+
+  const excerpts: string[] = [];
+  const piiFindings: PiiFinding[] = [];
+  for (const child of files) {
+    if (excerpts.length >= FOLDER_SAMPLE_FILES) break;
+    const content = await getFileContent(child.id, child.mimeType, child.name, parseInt(child.size || '0'));
+    // Placeholders such as "[Binary File ...]" say nothing about the folder
+    if (!content.trim() || content.startsWith('[')) continue;
+    // Redacted before the cut, so a value straddling it is still found
+    const excerpt = redactExcerpt(content, FOLDER_SAMPLE_CHARS);
+    excerpt.findings.forEach(f => piiFindings.push(f));
+    excerpts.push(`[${child.name}]\n${excerpt.text}`);
+  }
+
+  return {
+    summary: {
+      fileCount: files.length,
+      folderCount: folders.length,
+      childNames: [...folders.map(f => `${f.name}/`), ...files.map(f => f.name)].slice(0, FOLDER_SAMPLE_NAMES)
+    },
+    sampleText: excerpts.join('\n\n'),
+    piiFindings
+  };
+};
+
+/**
+ * Downloads the raw bytes of a (non-Google) file.
+ */
+export const downloadFileBytes = (fileId: string): Promise<ArrayBuffer> => backend.downloadFileBytes(fileId);
+
+export const getFileContent = async (fileId: string, mimeType: string, name = '', size = 0): Promise<string> => {
+  try {
+    return await backend.getFileContent(fileId, mimeType, name, size);
   } catch (err) {
     console.warn("Could not fetch file content", err);
     return "[Content Access Error]";
   }
 };
 
-// --- WRITE OPERATIONS ---
+/**
+ * Produces the image the model should see for a photo or a scanned PDF.
+ * Images are downloaded and downscaled; images too large to download fall back to the Drive thumbnail.
+ * Returns undefined when no image can be produced (the file is then analyzed from text only).
+ */
+export const getFileImage = async (
+  fileId: string,
+  mimeType: string,
+  name: string,
+  size: number,
+  thumbnailLink?: string
+): Promise<ImageAttachment | undefined> => {
+  try {
+    if (isImageType(mimeType)) {
+      if (size <= MAX_DOWNLOAD_BYTES) {
+        return await downscaleImage(new Blob([await downloadFileBytes(fileId)]));
+      }
+      if (thumbnailLink) {
+        // Thumbnail links end in a size parameter (e.g. "=s220"); ask for a larger rendition
+        const response = await fetch(thumbnailLink.replace(/=s\d+$/, '=s1024'));
+        if (response.ok) return await downscaleImage(await response.blob());
+      }
+      return undefined;
+    }
+    if (isPdfType(mimeType, name) && size <= MAX_DOWNLOAD_BYTES) {
+      return await renderPdfFirstPage(await downloadFileBytes(fileId));
+    }
+  } catch (err) {
+    console.warn("Could not prepare image for analysis", err);
+  }
+  return undefined;
+};
 
-const findFolder = async (name: string, parentId: string): Promise<string | null> => {
-   // Sanitize name for query
-   const sanitizedName = name.replace(/'/g, "\\'");
-   const q = `mimeType = 'application/vnd.google-apps.folder' and name = '${sanitizedName}' and '${parentId}' in parents and trashed = false`;
-   const response = await window.gapi.client.drive.files.list({ q, fields: 'files(id)', pageSize: 1 });
-   return response.result.files.length > 0 ? response.result.files[0].id : null;
+/**
+ * Resolves a folder path like ensureFolderPath does, but without creating anything.
+ * Returns null when part of the path does not exist yet.
+ */
+export const findFolderPath = async (path: string, driveId?: string): Promise<string | null> => {
+  const rootId = driveId || 'root';
+  const parts = path.split('/').map(p => p.trim()).filter(p => p !== '');
+
+  let currentParentId = rootId;
+  let currentPathStr = '';
+  for (const part of parts) {
+    currentPathStr = currentPathStr ? `${currentPathStr}/${part}` : part;
+    const cacheKey = `${rootId}:${currentPathStr}`;
+    const folderId = folderCache[cacheKey] || await backend.findFolder(part, currentParentId, driveId);
+    if (!folderId) return null;
+    folderCache[cacheKey] = folderId;
+    currentParentId = folderId;
+  }
+  return currentParentId;
 };
 
-const createFolder = async (name: string, parentId: string): Promise<string> => {
-   const fileMetadata = {
-     name,
-     mimeType: 'application/vnd.google-apps.folder',
-     parents: [parentId]
-   };
-   const response = await window.gapi.client.drive.files.create({
-     resource: fileMetadata,
-     fields: 'id'
-   });
-   return response.result.id;
+// --- WRITE OPERATIONS ---
+
+/**
+ * Explains why a file cannot be renamed or moved to the target folder, or returns null if it can.
+ * Files are only ever moved within their own drive, so only the rename and in-drive move rights matter.
+ */
+export const getUpdateBlocker = (file: DriveFile, newName: string, targetFolderId?: string): string | null => {
+  if (file.isFolder && targetFolderId === file.id) {
+    return "A folder cannot be moved into itself. Choose its new parent folder as the path.";
+  }
+  const caps = file.capabilities;
+  if (!caps) return null;
+  if (newName !== file.name && caps.canRename === false) {
+    return "You don't have permission to rename this file.";
+  }
+  const moving = !!targetFolderId && targetFolderId !== 'root' && !file.parents?.includes(targetFolderId);
+  if (moving && caps.canMoveItemWithinDrive === false) {
+    return file.driveId
+      ? "Your role in this shared drive doesn't allow moving files (Content manager or higher is required)."
+      : "You don't have permission to move this file.";
+  }
+  return null;
 };
 
 /**
  * Ensures that a folder path exists (e.g., "Work/Projects/2024").
  * Creates missing folders as needed.
  * Returns the ID of the final folder.
+ * @param onFolderCreated Called for every folder this call had to create (used by the sync journal)
+ * @param driveId Shared drive to resolve the path in (its root folder); omitted for My Drive
  */
-export const ensureFolderPath = async (path: string): Promise<string> => {
+export const ensureFolderPath = async (
+  path: string,
+  onFolderCreated?: (folder: CreatedFolder) => void,
+  driveId?: string
+): Promise<string> => {
+  const rootId = driveId || 'root';
+
   // Normalize path
   const parts = path.split('/').map(p => p.trim()).filter(p => p !== '');
-  if (parts.length === 0) return 'root';
+  if (parts.length === 0) return rootId;
 
-  let currentParentId = 'root';
+  let currentParentId = rootId;
   let currentPathStr = '';
 
   for (const part of parts) {
     currentPathStr = currentPathStr ? `${currentPathStr}/${part}` : part;
+    // The same path can exist in several drives
+    const cacheKey = `${rootId}:${currentPathStr}`;
     
     // Check Cache first
-    if (folderCache[currentPathStr]) {
-      currentParentId = folderCache[currentPathStr];
+    if (folderCache[cacheKey]) {
+      currentParentId = folderCache[cacheKey];
       continue;
     }
 
     // Check Drive
-    let folderId = await findFolder(part, currentParentId);
+    let folderId = await backend.findFolder(part, currentParentId, driveId);
     if (!folderId) {
-      folderId = await createFolder(part, currentParentId);
+      folderId = await backend.createFolder(part, currentParentId);
+      onFolderCreated?.({ id: folderId, path: currentPathStr, driveId });
     }
 
     // Update Cache
-    folderCache[currentPathStr] = folderId;
+    folderCache[cacheKey] = folderId;
     currentParentId = folderId;
   }
   
   return currentParentId;
 };
 
+export interface FileUpdateRequest {
+  fileId: string;
+  newName: string;
+  currentParents?: string[];
+  targetFolderId?: string;
+  metadata?: FileMetadataUpdate;
+}
+
+// Classification metadata written alongside a rename / move
+export interface FileMetadataUpdate {
+  appProperties?: Record<string, string>;
+  description?: string;
+}
+
+// Files per batch HTTP request (Drive accepts up to 100, but large batches trip the rate limit)
+const UPDATE_BATCH_SIZE = 20;
+// Extra rounds for items of a batch that failed with a transient error
+const MAX_UPDATE_ROUNDS = 4;
+
+const buildFileUpdate = (
+  newName: string,
+  currentParents: string[] | undefined,
+  targetFolderId?: string,
+  metadata?: FileMetadataUpdate
+): DriveFileUpdate => {
+  const update: DriveFileUpdate = { name: newName, ...metadata };
+
+  if (targetFolderId && targetFolderId !== 'root') {
+    // Check if it's already in the target folder
+    const isAlreadyHere = currentParents && currentParents.includes(targetFolderId);
+    
+    if (!isAlreadyHere) {
+        update.addParents = [targetFolderId];
+        if (currentParents && currentParents.length > 0) {
+            update.removeParents = currentParents;
+        }
+    }
+  }
+  return update;
+};
+
 /**
  * Renames and Moves a file.
+ * @param metadata Optional appProperties and description to write in the same request
  */
 export const applyFileUpdate = async (
   fileId: string, 
   newName: string, 
   currentParents: string[] | undefined, 
-  targetFolderId?: string
+  targetFolderId?: string,
+  metadata?: FileMetadataUpdate
 ): Promise<void> => {
-  
-  const body: any = { name: newName };
-  const params: any = { fileId, resource: body };
+  await backend.updateFile(fileId, buildFileUpdate(newName, currentParents, targetFolderId, metadata));
+};
 
-  if (targetFolderId && targetFolderId !== 'root') {
-    // If we have a target folder and it's not root (or if it is, handle specific root id logic if needed, but 'root' alias works)
-    
-    // Check if it's already in the target folder
-    const isAlreadyHere = currentParents && currentParents.includes(targetFolderId);
-    
-    if (!isAlreadyHere) {
-        params.addParents = targetFolderId;
-        if (currentParents && currentParents.length > 0) {
-            params.removeParents = currentParents.join(',');
+/**
+ * Renames and moves many files using batch requests. Items that fail with a transient
+ * error (rate limit, server error) are retried in later rounds with backoff; only errors that
+ * survive every round are reported.
+ * @param onResult Called once per file, with the error if it could not be updated
+ */
+export const applyFileUpdates = async (
+  requests: FileUpdateRequest[],
+  onResult: (fileId: string, error?: unknown) => void
+): Promise<void> => {
+  let pending = requests;
+
+  for (let round = 0; pending.length > 0; round++) {
+    const retry: FileUpdateRequest[] = [];
+
+    for (let i = 0; i < pending.length; i += UPDATE_BATCH_SIZE) {
+      const chunk = pending.slice(i, i + UPDATE_BATCH_SIZE);
+      let errors: (unknown | null)[];
+      try {
+        errors = await backend.updateFiles(chunk.map(r => ({
+          fileId: r.fileId,
+          update: buildFileUpdate(r.newName, r.currentParents, r.targetFolderId, r.metadata)
+        })));
+      } catch (err) {
+        // The whole batch request failed (after the scheduler's own retries)
+        errors = chunk.map(() => err);
+      }
+
+      // Inner requests of a batch can still fail with 401 (token expired mid-batch): sign in again and retry them
+      let signedIn = false;
+      if (errors.some(isUnauthorizedError)) {
+        try {
+          await driveScheduler.reauthenticate();
+          signedIn = true;
+        } catch (err) {
+          console.warn("Re-authentication failed", err);
         }
+      }
+
+      chunk.forEach((request, j) => {
+        const error = errors[j];
+        const retryable = isTransientDriveError(error) || (signedIn && isUnauthorizedError(error));
+        if (!error) onResult(request.fileId);
+        else if (retryable && round < MAX_UPDATE_ROUNDS) retry.push(request);
+        else onResult(request.fileId, error);
+      });
     }
+
+    if (retry.length > 0) await new Promise(resolve => setTimeout(resolve, driveScheduler.backoffDelay(round)));
+    pending = retry;
   }
+};
+
+
+// --- SHARING ---
 
-  await window.gapi.client.drive.files.update(params);
+export const listFilePermissions = (fileId: string): Promise<DrivePermission[]> => backend.listPermissions(fileId);
+
+/**
+ * Applies one sharing remediation and returns what is needed to undo it.
+ * The grant is read back first so the journal holds its current state, not the one seen at review time.
+ */
+export const applySharingRemediation = async (
+  fileId: string,
+  remediation: SharingRemediation
+): Promise<AppliedPermissionChange> => {
+  const original = (await backend.listPermissions(fileId)).find(p => p.id === remediation.permissionId);
+  if (!original) throw new Error("The permission no longer exists.");
+
+  if (remediation.action === 'remove') {
+    await backend.deletePermission(fileId, original.id);
+  } else {
+    await backend.updatePermissionRole(fileId, original.id, 'reader');
+  }
+  return { action: remediation.action, original };
+};
+
+/**
+ * Undoes a sharing remediation. A removed grant is created again (with a new id), without notifying anyone.
+ */
+export const revertSharingChange = async (fileId: string, change: AppliedPermissionChange): Promise<void> => {
+  if (change.action === 'remove') {
+    await backend.createPermission(fileId, change.original);
+  } else {
+    await backend.updatePermissionRole(fileId, change.original.id, change.original.role);
+  }
+};
+
+// --- UNDO OPERATIONS ---
+
+/**
+ * Restores a file's original name and parents.
+ * The current parents are read back from Drive so that any parent that was added by the sync is removed.
+ * @param restore Classification metadata to put back: appProperties (null deletes a key) and the description
+ */
+export const revertFileUpdate = async (
+  fileId: string,
+  originalName: string,
+  originalParents: string[],
+  restore: { appProperties?: Record<string, string | null>; description?: string } = {}
+): Promise<void> => {
+  const currentParents = await backend.getParents(fileId);
+
+  const update: DriveFileUpdate = {
+    name: originalName,
+    addParents: originalParents.filter(p => !currentParents.includes(p)),
+    removeParents: currentParents.filter(p => !originalParents.includes(p))
+  };
+  if (restore.appProperties) update.appProperties = restore.appProperties;
+  if (restore.description !== undefined) update.description = restore.description;
+
+  await backend.updateFile(fileId, update);
+};
+
+/**
+ * Moves a folder to the trash if it has no remaining (non-trashed) children.
+ * Returns true if the folder was removed.
+ */
+export const removeFolderIfEmpty = async (folderId: string, driveId?: string): Promise<boolean> => {
+  const children = await backend.listChildren(folderId, driveId);
+  if (children.length > 0) return false;
+
+  await backend.updateFile(folderId, { trashed: true });
+
+  // Drop cached paths pointing at the removed folder so a later sync recreates it
+  for (const key of Object.keys(folderCache)) {
+    if (folderCache[key] === folderId) delete folderCache[key];
+  }
+  return true;
 };
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessedFile } from '../types';
+import { findDuplicateGroups, markAsCopy, normalizeName } from './duplicateService';
+
+const file = (id: string, name: string, extra: Partial<ProcessedFile> = {}): ProcessedFile => ({
+  id,
+  name,
+  size: 1000,
+  type: 'application/pdf',
+  lastModified: 0,
+  status: 'pending',
+  ...extra
+});
+
+describe('normalizeName', () => {
+  it('strips copy markers and the extension', () => {
+    expect(normalizeName('Copy of Report (2).pdf')).toBe('report');
+    expect(normalizeName('Report final v2.pdf')).toBe('report');
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups files with the same checksum as exact duplicates', () => {
+    const groups = findDuplicateGroups([
+      file('a', 'scan.pdf', { md5Checksum: 'x' }),
+      file('b', 'other name.pdf', { md5Checksum: 'x' }),
+      file('c', 'unrelated.pdf', { md5Checksum: 'y' })
+    ]);
+    expect(groups).toEqual([expect.objectContaining({ kind: 'exact', fileIds: ['a', 'b'] })]);
+  });
+
+  it('groups similar names as near duplicates only when their content matches', () => {
+    const text = 'Quarterly revenue grew by twelve percent across all regions';
+    const groups = findDuplicateGroups([
+      file('a', 'Report.pdf', { contentSnippet: text }),
+      file('b', 'Copy of Report.pdf', { contentSnippet: text }),
+      file('c', 'Notes.pdf', { contentSnippet: 'Meeting notes about the office move' }),
+      file('d', 'Notes (1).pdf', { contentSnippet: 'Shopping list: apples, bread, coffee and milk' })
+    ]);
+    expect(groups).toEqual([expect.objectContaining({ kind: 'near', fileIds: ['a', 'b'] })]);
+  });
+
+  it('never calls files near duplicates without content to compare', () => {
+    const groups = findDuplicateGroups([
+      file('a', 'IMG_0001.jpg', { type: 'image/jpeg' }),
+      file('b', 'IMG_0002.jpg', { type: 'image/jpeg' }),
+      file('c', 'Invoice 1001.pdf', { contentSnippet: '[Binary file]' }),
+      file('d', 'Copy of Invoice 1001.pdf')
+    ]);
+    expect(groups).toEqual([expect.objectContaining({ kind: 'possible', fileIds: ['c', 'd'] })]);
+  });
+
+  it('puts a file in at most one group', () => {
+    const groups = findDuplicateGroups([
+      file('a', 'Invoice.pdf', { md5Checksum: 'x' }),
+      file('b', 'Invoice.pdf', { md5Checksum: 'x' }),
+      file('c', 'Invoice (1).pdf')
+    ]);
+    expect(groups).toEqual([expect.objectContaining({ kind: 'exact', fileIds: ['a', 'b'] })]);
+  });
+});
+
+describe('markAsCopy', () => {
+  it('numbers the copy before the extension', () => {
+    expect(markAsCopy('Report.pdf', 2)).toBe('Report (Copy 2).pdf');
+    expect(markAsCopy('Notes', 3)).toBe('Notes (Copy 3)');
+  });
+});
@@ -0,0 +1,149 @@
+import { ProcessedFile } from '../types';
+import { splitExtension } from './nameTemplate';
+
+export interface DuplicateGroup {
+  id: string;
+  kind: 'exact' | 'near' | 'possible'; // possible: content could not be compared, so never archived in bulk
+  fileIds: string[];
+  reason: string;
+}
+
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+const SNIPPET_SIMILARITY_THRESHOLD = 0.7;
+const SIZE_TOLERANCE = 0.1; // 10%
+
+/**
+ * Strips the extension and the usual copy markers ("Copy of", "(1)", "- copy", "final", "v2")
+ * so that "Copy of Report (2).pdf" and "report.pdf" compare equal.
+ */
+export const normalizeName = (name: string): string => {
+  return splitExtension(name).base
+    .toLowerCase()
+    .replace(/^copy of\s+/, '')
+    .replace(/\(\d+\)/g, ' ')
+    .replace(/[-_ ]copy\b/g, ' ')
+    .replace(/\b(final|draft|new|v\d+)\b/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+// Levenshtein-based similarity in [0, 1]
+const stringSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length);
+};
+
+// Jaccard similarity of the word sets of two snippets
+const snippetSimilarity = (a: string, b: string): number => {
+  const words = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(w => w.length > 2));
+  const setA = words(a.substring(0, 1000));
+  const setB = words(b.substring(0, 1000));
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  setA.forEach(w => { if (setB.has(w)) shared++; });
+  return shared / (setA.size + setB.size - shared);
+};
+
+const sizesClose = (a: number, b: number): boolean => {
+  if (a === 0 && b === 0) return true;
+  return Math.abs(a - b) / Math.max(a, b) <= SIZE_TOLERANCE;
+};
+
+// Placeholder snippets from the content fetcher say nothing about the file itself
+const hasRealSnippet = (file: ProcessedFile): boolean => {
+  return !!file.contentSnippet && !file.contentSnippet.startsWith('[');
+};
+
+// Similar name and size, and the text content overlaps
+const isNearDuplicate = (a: ProcessedFile, b: ProcessedFile): boolean => {
+  if (a.type !== b.type || !sizesClose(a.size, b.size)) return false;
+  if (!hasRealSnippet(a) || !hasRealSnippet(b)) return false;
+  if (stringSimilarity(normalizeName(a.name), normalizeName(b.name)) < NAME_SIMILARITY_THRESHOLD) return false;
+  return snippetSimilarity(a.contentSnippet!, b.contentSnippet!) >= SNIPPET_SIMILARITY_THRESHOLD;
+};
+
+// Photos, videos and large files have no readable content, so "IMG_0001" and "IMG_0002" must not match:
+// without content only the same name apart from copy markers counts
+const isPossibleDuplicate = (a: ProcessedFile, b: ProcessedFile): boolean => {
+  if (a.type !== b.type || !sizesClose(a.size, b.size)) return false;
+  // Both readable: the content comparison above already decided
+  if (hasRealSnippet(a) && hasRealSnippet(b)) return false;
+  const name = normalizeName(a.name);
+  return !!name && name === normalizeName(b.name);
+};
+
+// Merges files transitively with union-find; returns the clusters of two or more
+const clusterBy = (files: ProcessedFile[], matches: (a: ProcessedFile, b: ProcessedFile) => boolean): ProcessedFile[][] => {
+  const parent = files.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+  for (let i = 0; i < files.length; i++) {
+    for (let j = i + 1; j < files.length; j++) {
+      if (matches(files[i], files[j])) parent[find(j)] = find(i);
+    }
+  }
+
+  const clusters = new Map<number, ProcessedFile[]>();
+  files.forEach((f, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) || []), f]);
+  });
+  return Array.from(clusters.values()).filter(members => members.length > 1);
+};
+
+/**
+ * Groups exact duplicates (same md5Checksum), near-duplicates (similar name, size and content) and
+ * possible duplicates (same name and similar size, for files without readable content).
+ * A file belongs to at most one group, in that order of precedence.
+ */
+export const findDuplicateGroups = (files: ProcessedFile[]): DuplicateGroup[] => {
+  const groups: DuplicateGroup[] = [];
+  const grouped = new Set<string>();
+
+  // 1. Exact duplicates by checksum
+  const byChecksum = new Map<string, ProcessedFile[]>();
+  files.forEach(f => {
+    if (!f.md5Checksum) return;
+    byChecksum.set(f.md5Checksum, [...(byChecksum.get(f.md5Checksum) || []), f]);
+  });
+  byChecksum.forEach((members, checksum) => {
+    if (members.length < 2) return;
+    members.forEach(m => grouped.add(m.id));
+    groups.push({ id: `exact_${checksum}`, kind: 'exact', fileIds: members.map(m => m.id), reason: 'Identical content (same checksum)' });
+  });
+
+  // 2. Near duplicates: similar name and size, with overlapping content
+  clusterBy(files.filter(f => !grouped.has(f.id)), isNearDuplicate).forEach(members => {
+    members.forEach(m => grouped.add(m.id));
+    groups.push({ id: `near_${members[0].id}`, kind: 'near', fileIds: members.map(m => m.id), reason: 'Similar name, size and content' });
+  });
+
+  // 3. Possible duplicates: same name and similar size, content not compared
+  clusterBy(files.filter(f => !grouped.has(f.id)), isPossibleDuplicate).forEach(members => {
+    groups.push({
+      id: `possible_${members[0].id}`,
+      kind: 'possible',
+      fileIds: members.map(m => m.id),
+      reason: 'Same name and similar size; content could not be compared'
+    });
+  });
+
+  return groups;
+};
+
+/**
+ * Appends " (Copy N)" before the extension, e.g. "Report.pdf" -> "Report (Copy 2).pdf".
+ */
+export const markAsCopy = (name: string, copyNumber: number): string => {
+  const { base, ext } = splitExtension(name);
+  return `${base} (Copy ${copyNumber})${ext ? `.${ext}` : ''}`;
+};
@@ -0,0 +1,155 @@
+import { unzipSync, strFromU8 } from 'fflate';
+
+// Enough text for classification and sensitivity scanning without bloating the prompt
+export const MAX_EXTRACTED_CHARS = 5000;
+const MAX_PDF_PAGES = 5;
+
+export const MIME_TYPES = {
+  PDF: 'application/pdf',
+  DOCX: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  XLSX: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  PPTX: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+} as const;
+
+// Browsers report an empty type for some uploads, so fall back to the extension
+const resolveType = (mimeType: string, name: string): string => {
+  const ext = name.split('.').pop()?.toLowerCase();
+  if (mimeType === MIME_TYPES.PDF || ext === 'pdf') return MIME_TYPES.PDF;
+  if (mimeType === MIME_TYPES.DOCX || ext === 'docx') return MIME_TYPES.DOCX;
+  if (mimeType === MIME_TYPES.XLSX || ext === 'xlsx') return MIME_TYPES.XLSX;
+  if (mimeType === MIME_TYPES.PPTX || ext === 'pptx') return MIME_TYPES.PPTX;
+  return mimeType;
+};
+
+const isPlainText = (mimeType: string): boolean => {
+  return mimeType.startsWith('text/') || mimeType.includes('json') || mimeType.includes('javascript') || mimeType.includes('xml') || mimeType.includes('markdown');
+};
+
+/**
+ * True if `extractText` can read something useful from this kind of file.
+ */
+export const isExtractable = (mimeType: string, name: string): boolean => {
+  const type = resolveType(mimeType, name);
+  return isPlainText(type) || (Object.values(MIME_TYPES) as string[]).includes(type);
+};
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Collects the text of every <t> element (w:t in Word, a:t in PowerPoint), one line per paragraph
+const extractParagraphText = (xml: string): string => {
+  const doc = parseXml(xml);
+  const paragraphs = Array.from(doc.getElementsByTagNameNS('*', 'p'));
+  return paragraphs
+    .map(p => Array.from(p.getElementsByTagNameNS('*', 't')).map(t => t.textContent || '').join(''))
+    .filter(line => line.trim() !== '')
+    .join('\n');
+};
+
+/**
+ * Loads pdf.js on demand (it is large) and opens a document from its bytes.
+ */
+export const openPdfDocument = async (data: ArrayBuffer) => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  }
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy
+  return pdfjs.getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+};
+
+const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  const pdf = await openPdfDocument(data);
+  const pages: string[] = [];
+  for (let i = 1; i <= Math.min(pdf.numPages, MAX_PDF_PAGES); i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    pages.push(content.items.map((item: any) => item.str || '').join(' '));
+    if (pages.join('\n').length > MAX_EXTRACTED_CHARS) break;
+  }
+  return pages.join('\n').replace(/[ \t]+/g, ' ').trim();
+};
+
+const extractDocxText = (data: ArrayBuffer): string => {
+  const zip = unzipSync(new Uint8Array(data), { filter: f => f.name === 'word/document.xml' });
+  const xml = zip['word/document.xml'];
+  return xml ? extractParagraphText(strFromU8(xml)) : '';
+};
+
+const extractPptxText = (data: ArrayBuffer): string => {
+  const zip = unzipSync(new Uint8Array(data), { filter: f => /^ppt\/slides\/slide\d+\.xml$/.test(f.name) });
+  const slideNumber = (name: string) => parseInt(name.match(/slide(\d+)\.xml$/)![1]);
+  return Object.keys(zip)
+    .sort((a, b) => slideNumber(a) - slideNumber(b))
+    .map(name => extractParagraphText(strFromU8(zip[name])))
+    .join('\n---\n');
+};
+
+/**
+ * Reads the cells of the first worksheet of an .xlsx file as rows of strings.
+ * Shared strings and inline strings are resolved; formulas yield their cached value.
+ */
+export const readXlsxRows = (data: ArrayBuffer): string[][] => {
+  const zip = unzipSync(new Uint8Array(data), {
+    filter: f => f.name === 'xl/sharedStrings.xml' || f.name === 'xl/worksheets/sheet1.xml'
+  });
+  const sheetXml = zip['xl/worksheets/sheet1.xml'];
+  if (!sheetXml) return [];
+
+  const sharedStrings: string[] = [];
+  if (zip['xl/sharedStrings.xml']) {
+    const doc = parseXml(strFromU8(zip['xl/sharedStrings.xml']));
+    Array.from(doc.getElementsByTagNameNS('*', 'si')).forEach(si => {
+      sharedStrings.push(Array.from(si.getElementsByTagNameNS('*', 't')).map(t => t.textContent || '').join(''));
+    });
+  }
+
+  // "B12" -> 1
+  const columnIndex = (ref: string): number => {
+    const letters = ref.replace(/\d+/g, '');
+    return letters.split('').reduce((acc, ch) => acc * 26 + (ch.charCodeAt(0) - 64), 0) - 1;
+  };
+
+  const doc = parseXml(strFromU8(sheetXml));
+  return Array.from(doc.getElementsByTagNameNS('*', 'row')).map(row => {
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagNameNS('*', 'c')).forEach((cell, i) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : i;
+      const type = cell.getAttribute('t');
+      let value = '';
+      if (type === 'inlineStr') {
+        value = Array.from(cell.getElementsByTagNameNS('*', 't')).map(t => t.textContent || '').join('');
+      } else {
+        const raw = cell.getElementsByTagNameNS('*', 'v')[0]?.textContent || '';
+        value = type === 's' ? sharedStrings[parseInt(raw)] || '' : raw;
+      }
+      cells[index] = value;
+    });
+    return Array.from(cells, c => c ?? '');
+  });
+};
+
+const extractXlsxText = (data: ArrayBuffer): string => {
+  return readXlsxRows(data)
+    .map(row => row.join(','))
+    .filter(line => line.replace(/,/g, '').trim() !== '')
+    .join('\n');
+};
+
+/**
+ * Extracts readable text from file bytes. Supports plain text, PDF, .docx, .xlsx and .pptx.
+ * Returns null when the type is not supported, so callers can fall back to name-based analysis.
+ */
+export const extractText = async (data: ArrayBuffer, mimeType: string, name: string): Promise<string | null> => {
+  const type = resolveType(mimeType, name);
+  let text: string;
+
+  if (type === MIME_TYPES.PDF) text = await extractPdfText(data);
+  else if (type === MIME_TYPES.DOCX) text = extractDocxText(data);
+  else if (type === MIME_TYPES.XLSX) text = extractXlsxText(data);
+  else if (type === MIME_TYPES.PPTX) text = extractPptxText(data);
+  else if (isPlainText(type)) text = new TextDecoder().decode(data);
+  else return null;
+
+  return text.substring(0, MAX_EXTRACTED_CHARS);
+};
@@ -0,0 +1,12 @@
+/**
+ * Saves generated data as a file through a temporary object URL.
+ */
+export const downloadFile = (data: BlobPart, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,69 @@
+import { FolderIndex } from '../types';
+
+// Index of existing folder paths, as returned by getFolderIndex, e.g. ["03_Finance", "03_Finance/Tax"]
+
+const splitPath = (path: string): string[] => path.split('/').map(p => p.trim()).filter(p => p !== '');
+
+// "03_Finance" and "finance", "Tax-Returns" and "tax returns" name the same folder
+const normalizeSegment = (segment: string): string =>
+  segment.toLowerCase().replace(/^\d+[_\s-]+/, '').replace(/[\s_\-.]+/g, '');
+
+// Singular and plural forms count as the same folder ("Tax" and "Taxes", "Invoice" and "Invoices")
+const sameFolder = (a: string, b: string): boolean => {
+  const x = normalizeSegment(a);
+  const y = normalizeSegment(b);
+  return !!x && (x === y || x + 's' === y || y + 's' === x || x + 'es' === y || y + 'es' === x);
+};
+
+const isStaying = (path: string) => !path || path === '/' || path === '.';
+
+/**
+ * Maps a suggested path onto the existing tree, segment by segment: each segment that matches an
+ * existing folder at that level takes the folder's real name. From the first segment without a match,
+ * the rest of the path is kept as suggested, since those folders will have to be created.
+ * Example: "Finance/Taxes/2023" with "03_Finance/Tax" existing becomes "03_Finance/Tax/2023".
+ */
+export const snapToExistingFolder = (path: string, index: string[]): string => {
+  if (isStaying(path) || index.length === 0) return path;
+
+  const indexed = index.map(splitPath);
+  const snapped: string[] = [];
+  const segments = splitPath(path);
+  for (let i = 0; i < segments.length; i++) {
+    const prefix = snapped.join('/');
+    const children = indexed
+      .filter(parts => parts.length === i + 1 && parts.slice(0, i).join('/') === prefix)
+      .map(parts => parts[i]);
+    // An exact name wins over a normalized match when both exist
+    const match = children.find(name => name === segments[i]) || children.find(name => sameFolder(name, segments[i]));
+    if (!match) return [...snapped, ...segments.slice(i)].join('/');
+    snapped.push(match);
+  }
+  return snapped.join('/');
+};
+
+/**
+ * Folders of the path that do not exist yet and would be created by a sync, as full paths.
+ * Names must match exactly, as ensureFolderPath looks them up. Below an existing folder at a depth the
+ * index does not list in full, nothing is reported: those folders may well exist.
+ */
+export const findNewFolders = (path: string, index: FolderIndex): string[] => {
+  if (isStaying(path)) return [];
+  const existing = new Set(index.paths.map(p => splitPath(p).join('/')));
+  const segments = splitPath(path);
+  const prefixes = segments.map((_, i) => segments.slice(0, i + 1).join('/'));
+  const firstMissing = prefixes.findIndex(prefix => !existing.has(prefix));
+  if (firstMissing === -1) return [];
+  // Depth is one-based: the first segment is a folder at depth 1
+  if (index.truncatedAt !== undefined && firstMissing + 1 >= index.truncatedAt) return [];
+  // Once a folder is missing, every folder inside it is missing too
+  return prefixes.slice(firstMissing);
+};
+
+/**
+ * Prompt block listing the existing folders, one path per line.
+ */
+export const describeFolderIndex = (index: string[]): string => index.length === 0 ? '' : `
+Existing folders in the destination drive (reuse one of these for 'suggestedPath' whenever it fits; only propose a new folder when none does):
+${index.join('\n')}
+`;
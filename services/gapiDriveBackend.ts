@@ -0,0 +1,307 @@
+import { DriveInfo, DrivePermission } from '../types';
+import { DriveBackend, DriveFileUpdate } from './driveBackend';
+import { buildSearchQuery } from './driveQuery';
+import { extractText, isExtractable, MAX_EXTRACTED_CHARS } from './extractionService';
+import { driveScheduler } from './requestScheduler';
+
+const FILE_FIELDS = 'id, name, mimeType, size, modifiedTime, thumbnailLink, webViewLink, iconLink, parents, md5Checksum, driveId, '
+  + 'appProperties, description, '
+  + 'capabilities(canRename, canMoveItemWithinDrive, canMoveItemOutOfDrive)';
+const PERMISSION_FIELDS = 'id, type, role, emailAddress, domain, displayName, allowFileDiscovery, permissionDetails(inherited)';
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// Files larger than this are classified from name and type only
+export const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+// Export formats for native Google files
+const GOOGLE_EXPORT_TYPES: Record<string, string> = {
+  'application/vnd.google-apps.document': 'text/plain',
+  'application/vnd.google-apps.spreadsheet': 'text/csv',
+  'application/vnd.google-apps.presentation': 'text/plain',
+};
+
+const assertReady = () => {
+  if (!window.gapi?.client?.drive) throw new Error("GAPI not initialized");
+};
+
+const escapeQuery = (value: string) => value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+// files.list scope: a single shared drive, or the user's own files. Every request opts in to
+// shared drive items, otherwise the API silently ignores them.
+const listScope = (driveId?: string) => driveId
+  ? { corpora: 'drive', driveId, includeItemsFromAllDrives: true, supportsAllDrives: true }
+  : { corpora: 'user', includeItemsFromAllDrives: true, supportsAllDrives: true };
+
+// Every API call goes through the scheduler so a large sync stays under the per-user rate limit
+const run = <T>(request: () => Promise<T>): Promise<T> => driveScheduler.schedule(request);
+
+// permissionDetails is only returned for shared drive items; a grant is inherited when every detail says so
+const toPermission = (p: any): DrivePermission => ({
+  id: p.id,
+  type: p.type,
+  role: p.role,
+  emailAddress: p.emailAddress,
+  domain: p.domain,
+  displayName: p.displayName,
+  allowFileDiscovery: p.allowFileDiscovery,
+  inherited: !!p.permissionDetails?.length && p.permissionDetails.every((d: any) => d.inherited)
+});
+
+const toUpdateParams = (fileId: string, update: DriveFileUpdate) => {
+  const resource: any = {};
+  if (update.name !== undefined) resource.name = update.name;
+  if (update.trashed !== undefined) resource.trashed = update.trashed;
+  if (update.appProperties) resource.appProperties = update.appProperties;
+  if (update.description !== undefined) resource.description = update.description;
+
+  const params: any = { fileId, resource, supportsAllDrives: true };
+  if (update.addParents?.length) params.addParents = update.addParents.join(',');
+  if (update.removeParents?.length) params.removeParents = update.removeParents.join(',');
+  return params;
+};
+
+/**
+ * Google Drive through gapi.client (set up by initGapi / requestAccessToken in driveService).
+ */
+export const gapiDriveBackend: DriveBackend = {
+  kind: 'gapi',
+
+  isConnected() {
+    return !!window.gapi?.client?.drive && !!window.gapi.client.getToken();
+  },
+
+  async getAccountEmail() {
+    const response: any = await run(() => window.gapi.client.drive.about.get({ fields: 'user(emailAddress)' }));
+    return response.result.user?.emailAddress || 'unknown';
+  },
+
+  async listDrives() {
+    assertReady();
+    const drives: DriveInfo[] = [{ id: 'root', name: 'My Drive', isShared: false }];
+    let pageToken: string | undefined = undefined;
+
+    do {
+      const response: any = await run(() => window.gapi.client.drive.drives.list({
+        pageSize: 100,
+        fields: 'nextPageToken, drives(id, name)',
+        pageToken
+      }));
+      (response.result.drives || []).forEach((d: any) => drives.push({ id: d.id, name: d.name, isShared: true }));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+
+    return drives;
+  },
+
+  async listChildren(folderId, driveId) {
+    assertReady();
+    const q = `'${folderId}' in parents and trashed = false`;
+    const files: any[] = [];
+    let pageToken: string | undefined = undefined;
+
+    do {
+      const response: any = await run(() => window.gapi.client.drive.files.list({
+        'pageSize': 100,
+        'fields': `nextPageToken, files(${FILE_FIELDS})`,
+        'q': q,
+        'orderBy': 'folder, name', // Folders first, then name
+        'pageToken': pageToken,
+        ...listScope(driveId)
+      }));
+      files.push(...(response.result.files || []));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+
+    return files;
+  },
+
+  async getStartPageToken(driveId) {
+    const response: any = await run(() => window.gapi.client.drive.changes.getStartPageToken({
+      supportsAllDrives: true,
+      ...(driveId ? { driveId } : {})
+    }));
+    return response.result.startPageToken;
+  },
+
+  async listChanges(pageToken, driveId) {
+    const files: any[] = [];
+    let token = pageToken;
+
+    // Pages carry nextPageToken until the last one, which carries newStartPageToken instead
+    while (true) {
+      const response: any = await run(() => window.gapi.client.drive.changes.list({
+        pageToken: token,
+        pageSize: 1000,
+        fields: `nextPageToken, newStartPageToken, changes(fileId, removed, file(${FILE_FIELDS}, trashed))`,
+        supportsAllDrives: true,
+        // My Drive changes only, unless a shared drive is being watched
+        ...(driveId ? { driveId, includeItemsFromAllDrives: true } : { includeItemsFromAllDrives: false })
+      }));
+      (response.result.changes || []).forEach((c: any) => {
+        if (!c.removed && c.file) files.push(c.file);
+      });
+      if (response.result.newStartPageToken) return { files, newStartPageToken: response.result.newStartPageToken };
+      token = response.result.nextPageToken;
+    }
+  },
+
+  async searchFiles(criteria, driveId, limit) {
+    assertReady();
+    const q = buildSearchQuery(criteria);
+    const files: any[] = [];
+    let pageToken: string | undefined = undefined;
+
+    do {
+      const response: any = await run(() => window.gapi.client.drive.files.list({
+        pageSize: Math.min(100, limit - files.length),
+        fields: `nextPageToken, files(${FILE_FIELDS})`,
+        q,
+        orderBy: 'modifiedTime desc',
+        pageToken,
+        ...listScope(driveId)
+      }));
+      files.push(...(response.result.files || []));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken && files.length < limit);
+
+    return files.slice(0, limit);
+  },
+
+  async getFileContent(fileId, mimeType, name, size) {
+    assertReady();
+    if (mimeType.startsWith('application/vnd.google-apps.')) {
+      const exportType = GOOGLE_EXPORT_TYPES[mimeType];
+      if (!exportType) return "[Google App File - Content Analysis Limited]";
+      const response: any = await run(() => window.gapi.client.drive.files.export({ fileId, mimeType: exportType }));
+      return response.body.substring(0, MAX_EXTRACTED_CHARS);
+    }
+    if (!isExtractable(mimeType, name)) {
+      return "[Binary File - Analysis based on Name/Type]";
+    }
+    if (size > MAX_DOWNLOAD_BYTES) {
+      return "[Large File - Analysis based on Name/Type]";
+    }
+    const bytes = await gapiDriveBackend.downloadFileBytes(fileId);
+    const text = await extractText(bytes, mimeType, name);
+    return text && text.trim() ? text : "[No extractable text - Analysis based on Name/Type]";
+  },
+
+  // gapi returns media as a binary string, so this goes through fetch with the current access token
+  async downloadFileBytes(fileId) {
+    return run(async () => {
+      const token = window.gapi.client.getToken()?.access_token;
+      const response = await fetch(`https://www.googleapis.com/drive/v3/files/${encodeURIComponent(fileId)}?alt=media&supportsAllDrives=true`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (!response.ok) {
+        throw Object.assign(new Error(`Download failed with status ${response.status}`), { status: response.status });
+      }
+      return response.arrayBuffer();
+    });
+  },
+
+  async findFolder(name, parentId, driveId) {
+    const q = `mimeType = '${FOLDER_MIME_TYPE}' and name = '${escapeQuery(name)}' and '${parentId}' in parents and trashed = false`;
+    const response: any = await run(() => window.gapi.client.drive.files.list({ q, fields: 'files(id)', pageSize: 1, ...listScope(driveId) }));
+    return response.result.files.length > 0 ? response.result.files[0].id : null;
+  },
+
+  // Parents hold the real id of My Drive's root, not the 'root' alias, so it is looked up first
+  async listFolders(driveId) {
+    assertReady();
+    const rootId = driveId || (await run(() => window.gapi.client.drive.files.get({ fileId: 'root', fields: 'id' })) as any).result.id;
+    const folders: { id: string; name: string; parents: string[] }[] = [];
+    let pageToken: string | undefined = undefined;
+
+    do {
+      const response: any = await run(() => window.gapi.client.drive.files.list({
+        pageSize: 1000,
+        fields: 'nextPageToken, files(id, name, parents)',
+        q: `mimeType = '${FOLDER_MIME_TYPE}' and trashed = false`,
+        pageToken,
+        ...listScope(driveId)
+      }));
+      (response.result.files || []).forEach((f: any) => folders.push({ id: f.id, name: f.name, parents: f.parents || [] }));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+
+    return { rootId, folders };
+  },
+
+  async createFolder(name, parentId) {
+    const response: any = await run(() => window.gapi.client.drive.files.create({
+      resource: { name, mimeType: FOLDER_MIME_TYPE, parents: [parentId] },
+      fields: 'id',
+      supportsAllDrives: true
+    }));
+    return response.result.id;
+  },
+
+  async getParents(fileId) {
+    const response: any = await run(() => window.gapi.client.drive.files.get({ fileId, fields: 'parents', supportsAllDrives: true }));
+    return response.result.parents || [];
+  },
+
+  async updateFile(fileId, update) {
+    await run(() => window.gapi.client.drive.files.update(toUpdateParams(fileId, update)));
+  },
+
+  // One multipart batch HTTP request; Drive still counts every inner request against the quota
+  async updateFiles(items) {
+    const response: any = await driveScheduler.schedule(() => {
+      const batch = window.gapi.client.newBatch();
+      items.forEach((item, i) => {
+        batch.add(window.gapi.client.drive.files.update(toUpdateParams(item.fileId, item.update)), { id: String(i) });
+      });
+      return batch;
+    }, items.length);
+
+    return items.map((_, i) => {
+      const entry = response.result[String(i)];
+      if (!entry) return new Error("Missing response in batch");
+      // Same shape as a rejected gapi request, so callers can inspect status and reason
+      return entry.status >= 400 ? { status: entry.status, result: entry.result } : null;
+    });
+  },
+
+  async listPermissions(fileId) {
+    const permissions: DrivePermission[] = [];
+    let pageToken: string | undefined = undefined;
+
+    do {
+      const response: any = await run(() => window.gapi.client.drive.permissions.list({
+        fileId,
+        fields: `nextPageToken, permissions(${PERMISSION_FIELDS})`,
+        pageSize: 100,
+        pageToken,
+        supportsAllDrives: true
+      }));
+      permissions.push(...(response.result.permissions || []).map(toPermission));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+
+    return permissions;
+  },
+
+  async deletePermission(fileId, permissionId) {
+    await run(() => window.gapi.client.drive.permissions.delete({ fileId, permissionId, supportsAllDrives: true }));
+  },
+
+  async updatePermissionRole(fileId, permissionId, role) {
+    await run(() => window.gapi.client.drive.permissions.update({
+      fileId, permissionId, resource: { role }, supportsAllDrives: true
+    }));
+  },
+
+  async createPermission(fileId, permission) {
+    const resource: any = { type: permission.type, role: permission.role };
+    if (permission.emailAddress) resource.emailAddress = permission.emailAddress;
+    if (permission.domain) resource.domain = permission.domain;
+    if (permission.allowFileDiscovery !== undefined) resource.allowFileDiscovery = permission.allowFileDiscovery;
+
+    const params: any = { fileId, resource, supportsAllDrives: true };
+    // The API only accepts this flag for user and group grants
+    if (permission.type === 'user' || permission.type === 'group') params.sendNotificationEmail = false;
+    await run(() => window.gapi.client.drive.permissions.create(params));
+  }
+};
@@ -0,0 +1,45 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { LlmProvider, JsonSchema } from './llmProvider';
+
+// Gemini uses its own upper-case type names
+const toGeminiSchema = (schema: JsonSchema): any => ({
+  type: Type[schema.type.toUpperCase() as keyof typeof Type],
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+  }),
+  ...(schema.required && { required: schema.required }),
+});
+
+export const createGeminiProvider = (apiKey: string | undefined, model: string): LlmProvider => {
+  if (!apiKey) {
+    throw new Error("No API Key provided. Please connect with a valid Gemini API Key.");
+  }
+
+  // Initialize the client with the selected key
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    label: `Gemini · ${model}`,
+    generateJson: async ({ systemInstruction, parts, responseSchema }) => {
+      const response = await ai.models.generateContent({
+        model,
+        config: {
+          systemInstruction,
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(responseSchema)
+        },
+        contents: [
+          {
+            role: 'user',
+            parts
+          }
+        ]
+      });
+
+      const text = response.text;
+      return text ? JSON.parse(text) : [];
+    }
+  };
+};
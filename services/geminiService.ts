@@ -1,10 +1,30 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { DriveFile, AnalysisResult, FileCategory } from '../types';
+import { DriveFile, AnalysisResult, AppSettings, CategoryDefinition } from '../types';
+import { getCategoryLabel, getArchiveCategory } from './taxonomyService';
+import { LlmProvider, PromptPart, createProvider } from './llmProvider';
+import { buildResponseSchema, validateAnalysisResults } from './analysisSchema';
+import { enforceSensitivityFloor, describeFindings } from './piiService';
+import { applyNamingConvention, describeNamingConventions } from './namingConvention';
+import { describeFolderIndex, snapToExistingFolder } from './folderIndex';
+import { evaluateRules, buildRuleResult, applyRuleOverrides, describeRuleConstraints, RuleOutcome } from './ruleEngine';
 
-// NOTE: We do NOT initialize the client globally here anymore.
-// The API Key is injected into process.env.API_KEY only after the user selects their account/key.
+// NOTE: We do NOT initialize a model client globally.
+// A provider is created per batch from the settings (see llmProvider.ts).
 
-const SYSTEM_INSTRUCTION = `
+// Bump whenever the prompt changes meaningfully; stored on synced files so later runs know which prompt classified them
+export const PROMPT_VERSION = '7';
+
+/**
+ * Builds the system prompt for the given taxonomy. The allowed categories and the archive
+ * folder are generated from the user's category definitions.
+ */
+const buildSystemInstruction = (taxonomy: CategoryDefinition[]): string => {
+  const categoryList = taxonomy
+    .map(c => `- ${getCategoryLabel(c)}${c.description ? `: ${c.description}` : ''}`)
+    .join('\n');
+  const archive = getArchiveCategory(taxonomy) || taxonomy[taxonomy.length - 1];
+  const archiveLabel = getCategoryLabel(archive);
+
+  return `
 You are a principal digital archivist, records manager, and information architect with deep expertise in:
 
 Large-scale document organization
@@ -39,21 +59,14 @@ Maintain long-term retrievability and clarity
 Accuracy > completeness > speed.
 
 ALLOWED TOP-LEVEL CATEGORIES (CHOOSE ONE ONLY)
-- 01_Work
-- 02_Personal
-- 03_Finance
-- 04_Legal
-- 05_Photos_Videos
-- 06_Learning
-- 07_Templates
-- 99_Archive
+${categoryList}
 
 If none apply with high confidence → Manual Review Required.
 
 REQUIRED ANALYSIS PIPELINE (MANDATORY)
 You must explicitly reason through all steps below for every file:
 1. Inspect file name, extension, and timestamps
-2. Read and comprehend the actual content
+2. Read and comprehend the actual content (including any attached image of a photo or scanned document)
 3. Identify the real-world purpose of the file
 4. Extract any explicit entities: Dates, People, Organizations, Projects, Legal/financial context
 5. Determine lifecycle status: Active, Dormant, Completed/Historical
@@ -65,7 +78,7 @@ Return one entry per file using the JSON schema provided.
 IMPORTANT:
 - For "Manual Review", use the 'reasoning' field to explain clearly why manual review is needed.
 - If Archive is Manual Review, set 'shouldArchive' to false.
-- If Category is Manual Review, choose the most likely category or '99_Archive' and note uncertainty in 'reasoning'.
+- If Category is Manual Review, choose the most likely category or '${archiveLabel}' and note uncertainty in 'reasoning'.
 
 RENAMING RULES (ENFORCED)
 Sound like a competent human named it
@@ -76,15 +89,29 @@ No ALL CAPS
 No excessive underscores or separators
 Optimize for searchability and clarity
 If a clean name cannot be produced confidently → Manual Review.
+${describeNamingConventions(taxonomy)}
+EXTRACTED FIELDS
+Fill 'fields' with facts the content states explicitly; leave out anything you would have to guess:
+- documentDate: the document's own date (issue, statement or signing date) as YYYY-MM-DD
+- counterparty: the other party, such as the vendor, bank, employer, client or authority
+- docType: a short document type, e.g. "Invoice", "Bank statement", "Employment contract"
+- title: a short subject, e.g. "Kitchen renovation"
 
 ARCHIVAL DECISION LOGIC
 Mark Archive = YES only if at least one applies:
 File is completed, obsolete, or reference-only
 No practical relevance for 2+ years
 Belongs to a closed project, resolved matter, or past fiscal year
-Archive Folder Structure: 99_Archive / {Original Category} / {Year}
+Archive Folder Structure: ${archiveLabel} / {Original Category} / {Year}
 If year cannot be determined reliably → Manual Review.
 
+FOLDERS
+Some entries are whole folders, marked "Folder ID" (return that id as 'fileId'). Judge the folder as one unit from its name, its children and the sampled content:
+- 'suggestedName' is the folder's new name; keep the current name when it is already clear. Generic names such as "New Folder (3)" or "stuff" must be replaced with a name describing what the folder holds.
+- 'suggestedPath' is the folder the whole folder should be moved into (its new parent), not a path that ends with the folder itself.
+- Set 'shouldArchive' when the folder as a whole is finished or obsolete; the archive rules above apply.
+- Never propose splitting or merging folders; mention mixed content in 'reasoning' instead.
+
 SENSITIVITY LOGIC
 - 'High Risk': Contains SSN, Passwords, API Keys, Credit Card info.
 - 'Confidential': Internal financial reports, strategy docs, legal contracts.
@@ -108,85 +135,194 @@ EXECUTION MODE
 You will process files incrementally, one batch at a time, maintaining consistency across decisions.
 You will not drift standards mid-analysis.
 `;
+};
 
-export const analyzeFilesBatch = async (files: DriveFile[], apiKey?: string): Promise<AnalysisResult[]> => {
+/**
+ * @param constraints Per-file fields already fixed by classification rules, keyed by file id
+ * @param folderIndex Existing folder paths of the destination drive (see getFolderIndex)
+ */
+export const analyzeFilesBatch = async (
+  files: DriveFile[],
+  taxonomy: CategoryDefinition[],
+  provider: LlmProvider,
+  constraints: Record<string, string> = {},
+  folderIndex: string[] = []
+): Promise<AnalysisResult[]> => {
   if (files.length === 0) return [];
 
-  // Use provided key OR fallback to env var (which might be set by aistudio environment)
-  const keyToUse = apiKey || process.env.API_KEY;
-
-  if (!keyToUse) {
-    throw new Error("No API Key provided. Please connect with a valid Gemini API Key.");
-  }
-
-  // Initialize the client with the selected key
-  const ai = new GoogleGenAI({ apiKey: keyToUse });
+  const describeFolder = (f: DriveFile) => `
+    Folder ID: ${f.id}
+    Name: ${f.redactedName ?? f.name}
+    Modified: ${new Date(f.lastModified).toISOString()}
+    Contains: ${f.folderSummary?.fileCount ?? 0} files and ${f.folderSummary?.folderCount ?? 0} subfolders
+    Children: ${f.folderSummary?.childNames.join(', ') || '(empty)'}
+    Sampled content: ${f.contentSnippet ? f.contentSnippet.substring(0, 1000) : "None readable, infer context from the names."}${constraints[f.id] ? `
+    Fixed by user rules (keep these values): ${constraints[f.id]}` : ''}${f.piiFindings ? `
+    Local sensitivity scan (values redacted above): ${describeFindings(f.piiFindings)}` : ''}
+  `;
 
   // Prepare the prompt content
-  // We use a larger snippet (1000 chars) to ensure Gemini understands the intent
-  const fileDescriptions = files.map(f => `
+  // We use a larger snippet (1000 chars) to ensure the model understands the intent
+  const describeFile = (f: DriveFile) => f.isFolder ? describeFolder(f) : `
     File ID: ${f.id}
-    Name: ${f.name}
+    Name: ${f.redactedName ?? f.name}
     Type: ${f.type}
     Modified: ${new Date(f.lastModified).toISOString()}
-    Snippet: ${f.contentSnippet ? f.contentSnippet.substring(0, 1000) : "Binary file, infer context from name and type."}
-  `).join('\n---\n');
+    Snippet: ${f.contentSnippet ? f.contentSnippet.substring(0, 1000) : "Binary file, infer context from name and type."}${f.image ? `
+    Image: attached right after this description. Use what it shows (receipts, IDs, scanned documents) for the category, the name and the sensitivity.` : ''}${constraints[f.id] ? `
+    Fixed by user rules (keep these values): ${constraints[f.id]}` : ''}${f.piiFindings ? `
+    Local sensitivity scan (values redacted above): ${describeFindings(f.piiFindings)}` : ''}
+  `;
+
+  // One text part per file, each followed by that file's image (if any), so the model can pair them
+  const parts: PromptPart[] = [{ text: `${describeFolderIndex(folderIndex)}Analyze the following files and folders and provide organization suggestions:\n` }];
+  files.forEach((f, i) => {
+    parts.push({ text: `${i > 0 ? '\n---\n' : ''}${describeFile(f)}` });
+    if (f.image) {
+      parts.push({ inlineData: { mimeType: f.image.mimeType, data: f.image.data } });
+    }
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              fileId: { type: Type.STRING },
-              category: { 
-                type: Type.STRING, 
-                enum: [
-                  '01_Work', '02_Personal', '03_Finance', '04_Legal', 
-                  '05_Photos_Videos', '06_Learning', '07_Templates', '99_Archive'
-                ]
-              },
-              suggestedPath: { type: Type.STRING },
-              suggestedName: { type: Type.STRING },
-              shouldArchive: { type: Type.BOOLEAN },
-              sensitivity: { 
-                type: Type.STRING, 
-                enum: ['Normal', 'Confidential', 'High Risk'] 
-              },
-              reasoning: { type: Type.STRING },
-              confidence: { type: Type.NUMBER },
-            },
-            required: ['fileId', 'category', 'suggestedPath', 'suggestedName', 'shouldArchive', 'sensitivity', 'reasoning'],
-          }
-        }
-      },
-      contents: [
-        {
-          role: 'user',
-          parts: [{ text: `Analyze the following files and provide organization suggestions:\n\n${fileDescriptions}` }]
-        }
-      ]
+    const response = await provider.generateJson({
+      systemInstruction: buildSystemInstruction(taxonomy),
+      parts,
+      responseSchema: buildResponseSchema(taxonomy)
     });
-
-    const text = response.text;
-    if (!text) return [];
-    
-    // Parse the JSON response
-    const results = JSON.parse(text) as AnalysisResult[];
-    
-    // Map string categories back to Enum if needed (though strings match enum values)
-    return results.map(r => ({
-      ...r,
-      category: r.category as FileCategory
-    }));
-
+    return validateAnalysisResults(response, taxonomy);
   } catch (error) {
-    console.error("Gemini Analysis Failed:", error);
+    console.error(`Analysis Failed (${provider.label}):`, error);
     throw error;
   }
 };
+
+export interface BatchAnalysisOutcome {
+  results: AnalysisResult[];
+  failed: { fileId: string; error: string }[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const RETRYABLE_HTTP_STATUSES = [429, 500, 502, 503, 504];
+const RETRYABLE_API_STATUSES = ['RESOURCE_EXHAUSTED', 'UNAVAILABLE', 'INTERNAL', 'DEADLINE_EXCEEDED'];
+
+/**
+ * Rate limits and temporary server errors are worth retrying; anything else
+ * (bad key, invalid request) will fail the same way again. Numbers in the message text
+ * are ignored, since any id or size could look like a status code.
+ */
+const isRetryableError = (err: any): boolean => {
+  const code = err?.status ?? err?.code ?? err?.error?.code;
+  if (typeof code === 'number') return RETRYABLE_HTTP_STATUSES.includes(code);
+  const status = typeof code === 'string' ? code : err?.error?.status;
+  if (typeof status === 'string' && RETRYABLE_API_STATUSES.includes(status)) return true;
+  // Some errors only carry the API's JSON error body in their message
+  const msg = String(err?.message || err);
+  return RETRYABLE_API_STATUSES.some(s => msg.includes(`"${s}"`));
+};
+
+const withRetry = async <T>(fn: () => Promise<T>, maxRetries: number): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= maxRetries || !isRetryableError(err)) throw err;
+      // Exponential backoff: 1s, 2s, 4s, ...
+      await sleep(1000 * Math.pow(2, attempt));
+    }
+  }
+};
+
+/**
+ * Splits the files into chunks and analyzes them with a concurrency limit.
+ * A chunk that still fails after its retries only marks its own files as failed;
+ * every other result is returned.
+ * @param onChunkComplete Called after each chunk with the number of files handled so far and that chunk's outcome
+ * @param folderIndex Existing folders of the destination drive; the model's paths are snapped onto them
+ */
+export const analyzeFilesInChunks = async (
+  files: DriveFile[],
+  apiKey: string | undefined,
+  appSettings: AppSettings,
+  onChunkComplete?: (processed: number, total: number, chunkOutcome: BatchAnalysisOutcome) => void,
+  folderIndex: string[] = []
+): Promise<BatchAnalysisOutcome> => {
+  const settings = appSettings.analysis;
+  const provider = createProvider(appSettings.provider, apiKey);
+  const outcome: BatchAnalysisOutcome = { results: [], failed: [] };
+  let processed = 0;
+
+  // Deterministic rules run first; files they fully decide never reach the model
+  const ruleOutcomes = new Map<string, RuleOutcome>();
+  const toModel: DriveFile[] = [];
+  const decidedByRules: AnalysisResult[] = [];
+  for (const file of files) {
+    const ruleOutcome = evaluateRules(file, appSettings.rules);
+    if (ruleOutcome?.fullyDecided) {
+      decidedByRules.push(enforceSensitivityFloor(file, buildRuleResult(file, ruleOutcome)));
+    } else {
+      if (ruleOutcome) ruleOutcomes.set(file.id, ruleOutcome);
+      toModel.push(file);
+    }
+  }
+  if (decidedByRules.length > 0) {
+    const ruleChunk: BatchAnalysisOutcome = { results: decidedByRules, failed: [] };
+    outcome.results.push(...decidedByRules);
+    processed += decidedByRules.length;
+    onChunkComplete?.(processed, files.length, ruleChunk);
+  }
+
+  const chunkSize = Math.max(1, settings.chunkSize);
+  const chunks: DriveFile[][] = [];
+  for (let i = 0; i < toModel.length; i += chunkSize) {
+    chunks.push(toModel.slice(i, i + chunkSize));
+  }
+  let nextChunk = 0;
+
+  const worker = async () => {
+    while (nextChunk < chunks.length) {
+      const chunk = chunks[nextChunk++];
+      const chunkOutcome: BatchAnalysisOutcome = { results: [], failed: [] };
+      const constraints: Record<string, string> = {};
+      chunk.forEach(f => {
+        const ruleOutcome = ruleOutcomes.get(f.id);
+        if (ruleOutcome) constraints[f.id] = describeRuleConstraints(f, ruleOutcome);
+      });
+
+      try {
+        const results = await withRetry(
+          () => analyzeFilesBatch(chunk, appSettings.taxonomy, provider, constraints, folderIndex),
+          settings.maxRetries
+        );
+        chunkOutcome.results.push(...results.map(r => {
+          const file = chunk.find(f => f.id === r.fileId);
+          const ruleOutcome = ruleOutcomes.get(r.fileId);
+          const result: AnalysisResult = { ...r, suggestedPath: snapToExistingFolder(r.suggestedPath, folderIndex), source: 'model' };
+          if (!file) return result;
+          const ruled = ruleOutcome ? applyRuleOverrides(file, result, ruleOutcome) : result;
+          // A rule's rename template is explicit and wins over the category's naming convention
+          const named = ruleOutcome?.action.renameTemplate ? ruled : applyNamingConvention(file, ruled, appSettings.taxonomy);
+          return enforceSensitivityFloor(file, named);
+        }));
+
+        // The model occasionally skips a file; treat those as failed rather than silently dropping them
+        const returnedIds = new Set(results.map(r => r.fileId));
+        chunk
+          .filter(f => !returnedIds.has(f.id))
+          .forEach(f => chunkOutcome.failed.push({ fileId: f.id, error: "No valid result returned by the model" }));
+      } catch (err: any) {
+        const message = err?.message || String(err);
+        chunk.forEach(f => chunkOutcome.failed.push({ fileId: f.id, error: message }));
+      }
+      outcome.results.push(...chunkOutcome.results);
+      outcome.failed.push(...chunkOutcome.failed);
+      processed += chunk.length;
+      onChunkComplete?.(processed, files.length, chunkOutcome);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, settings.concurrency), chunks.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return outcome;
+};
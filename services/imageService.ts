@@ -0,0 +1,68 @@
+import { ImageAttachment } from '../types';
+import { openPdfDocument } from './extractionService';
+
+// Longest side of images sent to the model; enough to read a receipt, small enough for the request
+const MAX_DIMENSION = 1024;
+const JPEG_QUALITY = 0.8;
+
+// Below this many characters a PDF is treated as a scan without a text layer
+const MIN_PDF_TEXT_LENGTH = 50;
+
+const canvasToAttachment = (canvas: HTMLCanvasElement): ImageAttachment => {
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { mimeType: 'image/jpeg', data: dataUrl.substring(dataUrl.indexOf(',') + 1) };
+};
+
+export const isImageType = (mimeType: string): boolean => {
+  return mimeType.startsWith('image/') && mimeType !== 'image/svg+xml';
+};
+
+export const isPdfType = (mimeType: string, name = ''): boolean => {
+  return mimeType === 'application/pdf' || name.toLowerCase().endsWith('.pdf');
+};
+
+/**
+ * True when a PDF's extracted text is too short to classify it, i.e. it is most likely a scan.
+ */
+export const needsPdfRender = (extractedText?: string): boolean => {
+  if (!extractedText || extractedText.startsWith('[')) return true;
+  return extractedText.trim().length < MIN_PDF_TEXT_LENGTH;
+};
+
+/**
+ * Decodes an image and re-encodes it as a JPEG no larger than MAX_DIMENSION on its longest side.
+ */
+export const downscaleImage = async (blob: Blob): Promise<ImageAttachment> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no alpha channel; paint transparent areas white instead of black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return canvasToAttachment(canvas);
+};
+
+/**
+ * Renders the first page of a PDF to a JPEG, for scanned documents without a text layer.
+ */
+export const renderPdfFirstPage = async (data: ArrayBuffer): Promise<ImageAttachment> => {
+  const pdf = await openPdfDocument(data);
+  const page = await pdf.getPage(1);
+
+  const unscaled = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: MAX_DIMENSION / Math.max(unscaled.width, unscaled.height) });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  await page.render({ canvas, canvasContext: canvas.getContext('2d')!, viewport }).promise;
+
+  return canvasToAttachment(canvas);
+};
@@ -0,0 +1,66 @@
+const DB_NAME = 'gemini_drive_organizer';
+const DB_VERSION = 2;
+
+export const STORES = {
+  SESSIONS: 'sessions',
+  AUDIT_LOG: 'audit_log'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
+          db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+        }
+        // Added in version 2
+        if (!db.objectStoreNames.contains(STORES.AUDIT_LOG)) {
+          db.createObjectStore(STORES.AUDIT_LOG, { keyPath: 'seq', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGet = <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> =>
+  runRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const idbPut = <T>(storeName: string, value: T): Promise<IDBValidKey> =>
+  runRequest<IDBValidKey>(storeName, 'readwrite', store => store.put(value));
+
+// add() fails instead of overwriting when the key already exists
+export const idbAdd = <T>(storeName: string, value: T): Promise<IDBValidKey> =>
+  runRequest<IDBValidKey>(storeName, 'readwrite', store => store.add(value));
+
+export const idbGetAll = <T>(storeName: string): Promise<T[]> =>
+  runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const idbDelete = (storeName: string, key: IDBValidKey): Promise<void> =>
+  runRequest<void>(storeName, 'readwrite', store => store.delete(key));
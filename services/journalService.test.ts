@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProcessedFile } from '../types';
+import { createJournal, revertJournal, saveJournal, updateJournalEntry } from './journalService';
+import { applyFileUpdate, ensureFolderPath, getDriveBackend, setDriveBackend } from './driveService';
+import { createMemoryDriveBackend } from './memoryDriveBackend';
+import { buildAppProperties } from './classificationMetadata';
+
+// Journals are kept in localStorage, which Node does not have
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); }
+});
+
+const EARLIER_PROPERTIES = { category: '02_Personal', analyzedAt: '2023-05-01T00:00:00.000Z', model: 'old-model' };
+
+// The fields of a listed file these tests look at
+interface ListedFile {
+  id: string;
+  name: string;
+  parents: string[];
+  appProperties?: Record<string, string>;
+  description?: string;
+}
+
+const readFile = async (id: string, folderId: string): Promise<ListedFile> => {
+  const listed: ListedFile[] = await getDriveBackend().listChildren(folderId);
+  const file = listed.find(f => f.id === id);
+  if (!file) throw new Error(`${id} is not in ${folderId}`);
+  return file;
+};
+
+describe('revertJournal', () => {
+  let files: ProcessedFile[];
+
+  beforeEach(async () => {
+    storage.clear();
+    setDriveBackend(createMemoryDriveBackend({
+      myDrive: [{
+        name: 'Inbox',
+        id: 'inbox',
+        children: [
+          { name: 'scan.pdf', id: 'scan', description: 'From the scanner', appProperties: EARLIER_PROPERTIES },
+          { name: 'notes.txt', id: 'notes', mimeType: 'text/plain' }
+        ]
+      }]
+    }));
+    const listed = await getDriveBackend().listChildren('inbox');
+    files = listed.map((f): ProcessedFile => ({
+      id: f.id,
+      name: f.name,
+      size: 0,
+      type: f.mimeType,
+      lastModified: 0,
+      parents: f.parents,
+      description: f.description,
+      appProperties: f.appProperties,
+      status: 'approved',
+      analysis: {
+        fileId: f.id, suggestedName: `Renamed ${f.name}`, suggestedPath: 'Work/2024', category: '01_Work',
+        shouldArchive: false, sensitivity: 'Normal', reasoning: '', confidence: 1
+      }
+    }));
+  });
+
+  // Applies the batch the way a sync does: folders first, then each file with its metadata
+  const sync = async () => {
+    let journal = createJournal(files);
+    const targetId = await ensureFolderPath('Work/2024', folder => {
+      journal = { ...journal, createdFolders: [...journal.createdFolders, folder] };
+    });
+    saveJournal(journal);
+    for (const f of files) {
+      await applyFileUpdate(f.id, f.analysis!.suggestedName, f.parents, targetId, {
+        appProperties: buildAppProperties(f.analysis!, 'new-model', '7'),
+        description: 'Organized'
+      });
+      journal = updateJournalEntry(journal, f.id, {
+        status: 'applied', targetFolderId: targetId, wroteAppProperties: true, wroteDescription: true
+      });
+    }
+    return { journal, targetId };
+  };
+
+  it('puts names, folders and descriptions back and removes the created folders', async () => {
+    const { journal, targetId } = await sync();
+    expect((await readFile('scan', targetId)).name).toBe('Renamed scan.pdf');
+
+    const reverted = await revertJournal(journal);
+
+    expect(reverted.status).toBe('reverted');
+    expect(reverted.entries.every(e => e.status === 'reverted')).toBe(true);
+    const scan = await readFile('scan', 'inbox');
+    expect(scan).toMatchObject({ name: 'scan.pdf', parents: ['inbox'], description: 'From the scanner' });
+    expect((await readFile('notes', 'inbox')).name).toBe('notes.txt');
+    expect((await getDriveBackend().listChildren('root')).map(f => f.name)).toEqual(['Inbox']);
+  });
+
+  it('restores the classification properties a file had before the sync', async () => {
+    const { journal } = await sync();
+
+    await revertJournal(journal);
+
+    expect((await readFile('scan', 'inbox')).appProperties).toEqual(EARLIER_PROPERTIES);
+    expect((await readFile('notes', 'inbox')).appProperties).toBeUndefined();
+  });
+
+  it('only reverts applied entries', async () => {
+    const { journal } = await sync();
+    const partial = updateJournalEntry(journal, 'notes', { status: 'failed' });
+
+    const reverted = await revertJournal(partial);
+
+    expect(reverted.entries.find(e => e.fileId === 'notes')!.status).toBe('failed');
+    expect((await readFile('scan', 'inbox')).name).toBe('scan.pdf');
+  });
+});
@@ -0,0 +1,144 @@
+import { SyncJournal, SyncJournalEntry, ProcessedFile } from '../types';
+import { revertFileUpdate, removeFolderIfEmpty, revertSharingChange, clearFolderCache } from './driveService';
+import { restoreAppProperties } from './classificationMetadata';
+
+const STORAGE_KEY = 'sync_journals';
+const MAX_JOURNALS = 20;
+
+export const loadJournals = (): SyncJournal[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (err) {
+    console.warn("Could not read sync journals", err);
+    return [];
+  }
+};
+
+/**
+ * Persists a journal, replacing any previous version with the same id.
+ * Only the most recent journals are kept.
+ */
+export const saveJournal = (journal: SyncJournal): void => {
+  const others = loadJournals().filter(j => j.id !== journal.id);
+  const journals = [journal, ...others].slice(0, MAX_JOURNALS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(journals));
+};
+
+export const getJournal = (id: string): SyncJournal | null => {
+  return loadJournals().find(j => j.id === id) || null;
+};
+
+export const getLatestJournal = (): SyncJournal | null => {
+  return loadJournals()[0] || null;
+};
+
+/**
+ * Folders this app has moved files into, across every kept journal.
+ * Reverted files no longer count, so their folders are only listed while something else remains in them.
+ */
+export const getOrganizedFolderIds = (): string[] => {
+  const ids = new Set<string>();
+  for (const journal of loadJournals()) {
+    journal.entries.forEach(e => {
+      if (e.status === 'applied' && e.targetFolderId) ids.add(e.targetFolderId);
+    });
+  }
+  return Array.from(ids);
+};
+
+/**
+ * Builds the journal for a sync run. It must be saved before any Drive write happens,
+ * so that even an interrupted run can be reverted.
+ */
+export const createJournal = (files: ProcessedFile[]): SyncJournal => {
+  const entries: SyncJournalEntry[] = files
+    .filter(f => f.analysis)
+    .map(f => ({
+      fileId: f.id,
+      originalName: f.name,
+      originalParents: f.parents || [],
+      newName: f.analysis!.suggestedName,
+      targetPath: f.analysis!.suggestedPath,
+      originalDescription: f.description,
+      originalAppProperties: f.appProperties,
+      status: 'pending'
+    }));
+
+  return {
+    id: `sync_${Date.now()}`,
+    createdAt: Date.now(),
+    entries,
+    createdFolders: [],
+    status: 'in_progress'
+  };
+};
+
+export const updateJournalEntry = (
+  journal: SyncJournal,
+  fileId: string,
+  updates: Partial<SyncJournalEntry>
+): SyncJournal => {
+  const next = {
+    ...journal,
+    entries: journal.entries.map(e => e.fileId === fileId ? { ...e, ...updates } : e)
+  };
+  saveJournal(next);
+  return next;
+};
+
+/**
+ * Reverts every applied entry of a journal (restoring sharing, names and parents),
+ * then removes the folders created by the run if they are now empty.
+ * Folders are processed deepest first so that nested folders created by the run can all be removed.
+ */
+export const revertJournal = async (
+  journal: SyncJournal,
+  onProgress?: (current: number, total: number) => void
+): Promise<SyncJournal> => {
+  let current = journal;
+  const toRevert = journal.entries.filter(e => e.status === 'applied');
+  let failures = 0;
+
+  for (let i = 0; i < toRevert.length; i++) {
+    const entry = toRevert[i];
+    try {
+      // Sharing first, newest change first; each restored grant is saved so a retry skips it
+      let changes = entry.permissionChanges || [];
+      for (let c = changes.length - 1; c >= 0; c--) {
+        if (changes[c].reverted) continue;
+        await revertSharingChange(entry.fileId, changes[c]);
+        changes = changes.map((change, k) => k === c ? { ...change, reverted: true } : change);
+        current = updateJournalEntry(current, entry.fileId, { permissionChanges: changes });
+      }
+
+      await revertFileUpdate(entry.fileId, entry.originalName, entry.originalParents, {
+        appProperties: entry.wroteAppProperties ? restoreAppProperties(entry.originalAppProperties) : undefined,
+        description: entry.wroteDescription ? entry.originalDescription || '' : undefined
+      });
+      current = updateJournalEntry(current, entry.fileId, { status: 'reverted', changedAt: Date.now() });
+    } catch (err) {
+      console.error("Revert error for file", entry.originalName, err);
+      failures++;
+    }
+    onProgress?.(i + 1, toRevert.length);
+  }
+
+  // Reverted entries may include whole folders, which moves every cached path below them
+  clearFolderCache();
+
+  const folders = [...current.createdFolders].sort(
+    (a, b) => b.path.split('/').length - a.path.split('/').length
+  );
+  for (const folder of folders) {
+    try {
+      await removeFolderIfEmpty(folder.id, folder.driveId);
+    } catch (err) {
+      console.warn("Could not remove folder", folder.path, err);
+    }
+  }
+
+  current = { ...current, status: failures > 0 ? 'revert_failed' : 'reverted' };
+  saveJournal(current);
+  return current;
+};
@@ -0,0 +1,59 @@
+import { ProviderSettings } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+export type PromptPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+// Subset of JSON Schema used for structured output
+export interface JsonSchema {
+  type: 'array' | 'object' | 'string' | 'number' | 'boolean';
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface LlmRequest {
+  systemInstruction: string;
+  parts: PromptPart[];
+  responseSchema: JsonSchema;
+}
+
+/**
+ * A model backend. Implementations return the parsed JSON response; validating it against
+ * the schema is the caller's job, so every provider is held to the same contract.
+ */
+export interface LlmProvider {
+  label: string;
+  generateJson: (request: LlmRequest) => Promise<unknown>;
+}
+
+export const DEFAULT_MODELS: Record<ProviderSettings['provider'], string> = {
+  'gemini': 'gemini-3-pro-preview',
+  'openai-compatible': 'llama3.2-vision',
+};
+
+export const getModelName = (settings: ProviderSettings): string =>
+  settings.model.trim() || DEFAULT_MODELS[settings.provider];
+
+// Short description for status displays, e.g. "gemini-3-pro-preview" or "llama3.2-vision (local server)"
+export const getProviderLabel = (settings: ProviderSettings): string => {
+  const model = getModelName(settings);
+  return settings.provider === 'gemini' ? model : `${model} (local server)`;
+};
+
+/**
+ * Creates the provider chosen in settings.
+ * @param sessionApiKey The Gemini key the user signed in with
+ */
+export const createProvider = (settings: ProviderSettings, sessionApiKey?: string): LlmProvider => {
+  const model = getModelName(settings);
+
+  if (settings.provider === 'openai-compatible') {
+    return createOpenAiCompatibleProvider(settings.baseUrl, model, settings.apiKey);
+  }
+  // Use provided key OR fallback to env var (which might be set by aistudio environment)
+  return createGeminiProvider(sessionApiKey || process.env.API_KEY, model);
+};
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ProcessedFile } from '../types';
+import {
+  applyFileUpdates, ensureFolderPath, getFileContent, getUpdateBlocker, listDriveFiles, revertFileUpdate, setDriveBackend
+} from './driveService';
+import { createMemoryDriveBackend } from './memoryDriveBackend';
+import { buildAppProperties, readPreviousClassification, restoreAppProperties } from './classificationMetadata';
+
+// The fields of a listed file these tests look at
+interface ListedFile {
+  id: string;
+  name: string;
+  parents: string[];
+  appProperties?: Record<string, string>;
+  description?: string;
+}
+
+const listFolder = (folderId: string): Promise<ListedFile[]> => listDriveFiles(folderId);
+
+const findListed = async (folderId: string, id: string): Promise<ListedFile | undefined> =>
+  (await listFolder(folderId)).find(f => f.id === id);
+
+describe('memory drive: select, analyze, review, sync and revert', () => {
+  beforeEach(() => {
+    setDriveBackend(createMemoryDriveBackend({
+      myDrive: [{
+        name: 'Inbox',
+        id: 'inbox',
+        children: [
+          { name: 'scan_0042.pdf', id: 'invoice', content: 'Invoice 1042 from ACME GmbH, due 2024-03-01' },
+          { name: 'IMG_2231.jpg', id: 'receipt', mimeType: 'image/jpeg', appProperties: { category: '02_Personal', analyzedAt: '2023-01-01' } },
+          { name: 'contract.pdf', id: 'locked', content: 'Shared contract', readOnly: true }
+        ]
+      }]
+    }));
+  });
+
+  // What DriveSelector and the review step hand to the sync
+  const selectAndReview = async (): Promise<ProcessedFile[]> => {
+    const listed = await listDriveFiles('inbox');
+    return Promise.all(listed.map(async (f): Promise<ProcessedFile> => {
+      const content = await getFileContent(f.id, f.mimeType, f.name, Number(f.size));
+      return {
+        id: f.id,
+        name: f.name,
+        size: Number(f.size),
+        type: f.mimeType,
+        lastModified: 0,
+        contentSnippet: content.substring(0, 1000),
+        parents: f.parents,
+        capabilities: f.capabilities,
+        appProperties: f.appProperties,
+        previousClassification: readPreviousClassification(f.appProperties),
+        status: 'approved',
+        analysis: {
+          fileId: f.id, suggestedName: `2024 ${f.name}`, suggestedPath: 'Finance/2024', category: '03_Finance',
+          shouldArchive: false, sensitivity: 'Normal', reasoning: '', confidence: 1
+        }
+      };
+    }));
+  };
+
+  it('reads the fixture content during analysis', async () => {
+    const files = await selectAndReview();
+    expect(files.find(f => f.id === 'invoice')!.contentSnippet).toContain('ACME GmbH');
+    expect(files.find(f => f.id === 'receipt')!.previousClassification?.category).toBe('02_Personal');
+  });
+
+  it('moves, renames and labels the files, and reverts them', async () => {
+    const files = await selectAndReview();
+    const targetId = await ensureFolderPath('Finance/2024');
+
+    const movable = files.filter(f => !getUpdateBlocker(f, f.analysis!.suggestedName, targetId));
+    expect(movable.map(f => f.id).sort()).toEqual(['invoice', 'receipt']);
+
+    const results: Record<string, unknown> = {};
+    await applyFileUpdates(files.map(f => ({
+      fileId: f.id,
+      newName: f.analysis!.suggestedName,
+      currentParents: f.parents,
+      targetFolderId: targetId,
+      metadata: { appProperties: buildAppProperties(f.analysis!, 'test-model', '7'), description: 'Organized' }
+    })), (fileId, error) => { results[fileId] = error; });
+
+    expect(results.invoice).toBeUndefined();
+    expect(results.receipt).toBeUndefined();
+    expect(results.locked).toBeInstanceOf(Error);
+
+    const synced = await findListed(targetId, 'invoice');
+    expect(synced).toMatchObject({ name: '2024 scan_0042.pdf', parents: [targetId], description: 'Organized' });
+    expect(synced!.appProperties).toMatchObject({ category: '03_Finance', model: 'test-model', promptVersion: '7' });
+    expect((await listFolder('inbox')).map(f => f.id)).toEqual(['locked']);
+
+    for (const f of movable) {
+      await revertFileUpdate(f.id, f.name, f.parents!, {
+        appProperties: restoreAppProperties(f.appProperties),
+        description: ''
+      });
+    }
+
+    expect(await listFolder(targetId)).toEqual([]);
+    expect(await findListed('inbox', 'invoice')).toMatchObject({ name: 'scan_0042.pdf', parents: ['inbox'] });
+    expect((await findListed('inbox', 'invoice'))!.appProperties).toBeUndefined();
+    expect((await findListed('inbox', 'receipt'))!.appProperties).toEqual({ category: '02_Personal', analyzedAt: '2023-01-01' });
+  });
+});
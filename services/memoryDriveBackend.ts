@@ -0,0 +1,328 @@
+import { DriveInfo, DrivePermission } from '../types';
+import { DriveBackend } from './driveBackend';
+import { matchesMimeGroup } from './driveQuery';
+import { MAX_EXTRACTED_CHARS } from './extractionService';
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * A node of a fixture folder tree. Folders have `children`; everything else is a file.
+ * Only `name` is required: ids, sizes and checksums are generated when omitted.
+ */
+export interface DriveFixtureNode {
+  name: string;
+  id?: string;
+  mimeType?: string;
+  modifiedTime?: string;
+  size?: number;
+  md5Checksum?: string;
+  // Text returned as the file content (and as its bytes when downloaded)
+  content?: string;
+  // Simulates files the user may view but not move (e.g. a shared drive they can only comment on)
+  readOnly?: boolean;
+  appProperties?: Record<string, string>;
+  description?: string;
+  // Sharing grants besides the owner's; ids are generated when omitted
+  permissions?: Omit<DrivePermission, 'id'>[];
+  children?: DriveFixtureNode[];
+}
+
+export interface DriveFixture {
+  myDrive: DriveFixtureNode[];
+  sharedDrives?: { id: string; name: string; children: DriveFixtureNode[] }[];
+}
+
+interface MemoryFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  parents: string[];
+  modifiedTime: string;
+  size: number;
+  md5Checksum?: string;
+  content?: string;
+  driveId?: string;
+  readOnly?: boolean;
+  appProperties?: Record<string, string>;
+  description?: string;
+  permissions: DrivePermission[];
+  trashed: boolean;
+  changeSeq: number; // Position in the changes feed of the last write
+}
+
+// Stand-in for Drive's md5Checksum so identical fixture contents are detected as exact duplicates
+const contentChecksum = (content: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const isFolder = (file: MemoryFile) => file.mimeType === FOLDER_MIME_TYPE;
+
+const DEMO_ACCOUNT = 'demo@example.com';
+
+/**
+ * Drive backend that keeps a folder tree in memory. Writes change only the in-memory tree,
+ * so the whole select → analyze → review → sync flow can run without a Google account.
+ * As in the real API, `root` is My Drive's top-level folder and a shared drive's root folder id is the drive id.
+ */
+export const createMemoryDriveBackend = (fixture: DriveFixture = { myDrive: [] }) => {
+  const files = new Map<string, MemoryFile>();
+  const drives: DriveInfo[] = [{ id: 'root', name: 'My Drive', isShared: false }];
+  let nextId = 1;
+  // Changes feed position; fixture items sit before the first token so they never show up as changes
+  let changeSeq = 0;
+
+  const newId = () => `mem_${nextId++}`;
+
+  // My Drive items are owned by the demo account; shared drive items belong to the drive
+  const ownerPermissions = (driveId?: string): DrivePermission[] => driveId
+    ? [{ id: newId(), type: 'user', role: 'organizer', emailAddress: DEMO_ACCOUNT, inherited: true }]
+    : [{ id: newId(), type: 'user', role: 'owner', emailAddress: DEMO_ACCOUNT }];
+
+  const addRootFolder = (id: string, name: string, driveId?: string) => {
+    files.set(id, {
+      id, name, mimeType: FOLDER_MIME_TYPE, parents: [],
+      modifiedTime: new Date().toISOString(), size: 0, driveId, permissions: ownerPermissions(driveId), trashed: false, changeSeq
+    });
+  };
+
+  const addNode = (node: DriveFixtureNode, parentId: string, driveId?: string) => {
+    const id = node.id || newId();
+    const folder = !!node.children;
+    files.set(id, {
+      id,
+      name: node.name,
+      mimeType: folder ? FOLDER_MIME_TYPE : node.mimeType || 'text/plain',
+      parents: [parentId],
+      modifiedTime: node.modifiedTime || new Date().toISOString(),
+      size: folder ? 0 : node.size ?? (node.content?.length || 0),
+      md5Checksum: folder ? undefined : node.md5Checksum || (node.content !== undefined ? contentChecksum(node.content) : undefined),
+      content: node.content,
+      driveId,
+      readOnly: node.readOnly,
+      appProperties: node.appProperties,
+      description: node.description,
+      permissions: [
+        ...ownerPermissions(driveId),
+        ...(node.permissions || []).map(p => ({ ...p, id: newId() }))
+      ],
+      trashed: false,
+      changeSeq
+    });
+    node.children?.forEach(child => addNode(child, id, driveId));
+  };
+
+  addRootFolder('root', 'My Drive');
+  fixture.myDrive.forEach(node => addNode(node, 'root'));
+  fixture.sharedDrives?.forEach(drive => {
+    drives.push({ id: drive.id, name: drive.name, isShared: true });
+    addRootFolder(drive.id, drive.name, drive.id);
+    drive.children.forEach(node => addNode(node, drive.id, drive.id));
+  });
+
+  changeSeq++;
+
+  const getFile = (fileId: string): MemoryFile => {
+    const file = files.get(fileId);
+    if (!file) throw new Error(`File not found: ${fileId}`);
+    return file;
+  };
+
+  const recordChange = (file: MemoryFile) => {
+    file.changeSeq = changeSeq++;
+  };
+
+  // Shape returned by files.list for the fields the app requests
+  const toApiFile = (file: MemoryFile) => ({
+    id: file.id,
+    name: file.name,
+    trashed: file.trashed,
+    mimeType: file.mimeType,
+    size: isFolder(file) ? undefined : String(file.size),
+    modifiedTime: file.modifiedTime,
+    parents: [...file.parents],
+    md5Checksum: file.md5Checksum,
+    driveId: file.driveId,
+    appProperties: file.appProperties ? { ...file.appProperties } : undefined,
+    description: file.description,
+    capabilities: {
+      canRename: !file.readOnly,
+      canMoveItemWithinDrive: !file.readOnly,
+      // Leaving a shared drive is reserved to organizers; the demo drive never allows it
+      canMoveItemOutOfDrive: !file.readOnly && !file.driveId
+    },
+    webViewLink: undefined,
+    iconLink: undefined,
+    thumbnailLink: undefined
+  });
+
+  const children = (folderId: string) =>
+    Array.from(files.values()).filter(f => !f.trashed && f.parents.includes(folderId));
+
+  const backend: DriveBackend = {
+    kind: 'memory',
+
+    isConnected: () => true,
+
+    async getAccountEmail() {
+      return DEMO_ACCOUNT;
+    },
+
+    async listDrives() {
+      return [...drives];
+    },
+
+    async listChildren(folderId) {
+      return children(folderId)
+        .sort((a, b) => Number(isFolder(b)) - Number(isFolder(a)) || a.name.localeCompare(b.name))
+        .map(toApiFile);
+    },
+
+    async getStartPageToken() {
+      return String(changeSeq);
+    },
+
+    async listChanges(pageToken, driveId) {
+      const since = parseInt(pageToken, 10);
+      const changed = Array.from(files.values())
+        .filter(f => f.changeSeq >= since && f.parents.length > 0 && f.driveId === driveId)
+        .sort((a, b) => a.changeSeq - b.changeSeq)
+        .map(toApiFile);
+      return { files: changed, newStartPageToken: String(changeSeq) };
+    },
+
+    async searchFiles(criteria, driveId, limit) {
+      const name = criteria.nameContains?.trim().toLowerCase();
+      const text = criteria.fullText?.trim().toLowerCase();
+      const owner = criteria.owner?.trim().toLowerCase();
+      return Array.from(files.values())
+        .filter(f => !f.trashed && !isFolder(f) && f.parents.length > 0 && f.driveId === driveId)
+        .filter(f => !name || f.name.toLowerCase().includes(name))
+        .filter(f => !text || f.name.toLowerCase().includes(text) || !!f.content?.toLowerCase().includes(text))
+        .filter(f => !criteria.mimeGroup || matchesMimeGroup(f.mimeType, criteria.mimeGroup))
+        .filter(f => !criteria.modifiedAfter || f.modifiedTime >= criteria.modifiedAfter)
+        .filter(f => !criteria.modifiedBefore || f.modifiedTime < criteria.modifiedBefore)
+        // Only My Drive items have an owner, and it is always the demo account
+        .filter(f => !owner || (!f.driveId && (owner === 'me' || owner === DEMO_ACCOUNT)))
+        .filter(f => !criteria.excludeParentIds?.some(id => f.parents.includes(id)))
+        .sort((a, b) => b.modifiedTime.localeCompare(a.modifiedTime))
+        .slice(0, limit)
+        .map(toApiFile);
+    },
+
+    async getFileContent(fileId) {
+      const file = getFile(fileId);
+      if (file.content === undefined) return "[Binary File - Analysis based on Name/Type]";
+      return file.content.substring(0, MAX_EXTRACTED_CHARS);
+    },
+
+    async downloadFileBytes(fileId) {
+      const bytes = new TextEncoder().encode(getFile(fileId).content || '');
+      return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    },
+
+    async findFolder(name, parentId) {
+      return children(parentId).find(f => isFolder(f) && f.name === name)?.id || null;
+    },
+
+    async listFolders(driveId) {
+      const folders = Array.from(files.values())
+        .filter(f => isFolder(f) && !f.trashed && f.parents.length > 0 && f.driveId === driveId)
+        .map(f => ({ id: f.id, name: f.name, parents: [...f.parents] }));
+      return { rootId: driveId || 'root', folders };
+    },
+
+    async createFolder(name, parentId) {
+      const parent = getFile(parentId);
+      const id = newId();
+      files.set(id, {
+        id, name, mimeType: FOLDER_MIME_TYPE, parents: [parentId],
+        modifiedTime: new Date().toISOString(), size: 0, driveId: parent.driveId,
+        permissions: ownerPermissions(parent.driveId), trashed: false, changeSeq: changeSeq++
+      });
+      return id;
+    },
+
+    async getParents(fileId) {
+      return [...getFile(fileId).parents];
+    },
+
+    async updateFile(fileId, update) {
+      const file = getFile(fileId);
+      const moving = !!(update.addParents?.length || update.removeParents?.length);
+      if (file.readOnly && (moving || update.name !== undefined)) {
+        throw new Error("The user does not have sufficient permissions for this file.");
+      }
+      // Cross-drive moves need organizer rights in the real API; the demo drive never allows them
+      update.addParents?.forEach(p => {
+        if (getFile(p).driveId !== file.driveId) throw new Error("Moving items between drives is not allowed here.");
+        // Drive refuses to make a folder its own ancestor
+        for (let ancestor: MemoryFile | undefined = getFile(p); ancestor; ancestor = files.get(ancestor.parents[0])) {
+          if (ancestor.id === fileId) throw new Error("A folder cannot be moved into itself or one of its subfolders.");
+        }
+      });
+      if (update.name !== undefined) file.name = update.name;
+      if (update.trashed !== undefined) file.trashed = update.trashed;
+      if (update.description !== undefined) file.description = update.description;
+      if (update.appProperties) {
+        const merged: Record<string, string> = { ...file.appProperties };
+        Object.entries(update.appProperties).forEach(([key, value]) => {
+          if (value === null) delete merged[key];
+          else merged[key] = value;
+        });
+        file.appProperties = Object.keys(merged).length > 0 ? merged : undefined;
+      }
+      if (update.removeParents) file.parents = file.parents.filter(p => !update.removeParents!.includes(p));
+      if (update.addParents) file.parents = [...file.parents, ...update.addParents.filter(p => !file.parents.includes(p))];
+      file.modifiedTime = new Date().toISOString();
+      recordChange(file);
+    },
+
+    async updateFiles(items) {
+      const errors: (unknown | null)[] = [];
+      for (const item of items) {
+        try {
+          await backend.updateFile(item.fileId, item.update);
+          errors.push(null);
+        } catch (err) {
+          errors.push(err);
+        }
+      }
+      return errors;
+    },
+
+    async listPermissions(fileId) {
+      return getFile(fileId).permissions.map(p => ({ ...p }));
+    },
+
+    async deletePermission(fileId, permissionId) {
+      const file = getFile(fileId);
+      const permission = file.permissions.find(p => p.id === permissionId);
+      if (!permission) throw new Error(`Permission not found: ${permissionId}`);
+      if (permission.role === 'owner' || permission.inherited) {
+        throw new Error("This permission cannot be removed from the file itself.");
+      }
+      file.permissions = file.permissions.filter(p => p.id !== permissionId);
+      recordChange(file);
+    },
+
+    async updatePermissionRole(fileId, permissionId, role) {
+      const permission = getFile(fileId).permissions.find(p => p.id === permissionId);
+      if (!permission) throw new Error(`Permission not found: ${permissionId}`);
+      permission.role = role;
+      recordChange(getFile(fileId));
+    },
+
+    async createPermission(fileId, permission) {
+      const file = getFile(fileId);
+      file.permissions.push({ ...permission, id: newId(), inherited: false });
+      recordChange(file);
+    }
+  };
+
+  return backend;
+};
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DriveFile, ProcessedFile } from '../types';
+import { checkNameSafety, findNameConflicts, getKeptExtension, getSafeName, MAX_NAME_LENGTH } from './nameSafety';
+import { setDriveBackend } from './driveService';
+import { createMemoryDriveBackend } from './memoryDriveBackend';
+
+const file = (name: string, extra: Partial<DriveFile> = {}): DriveFile => ({
+  id: name,
+  name,
+  size: 100,
+  type: 'application/pdf',
+  lastModified: 0,
+  ...extra
+});
+
+describe('getKeptExtension', () => {
+  it('ignores folders, Google-native files and version numbers', () => {
+    expect(getKeptExtension(file('scan.PDF'))).toBe('PDF');
+    expect(getKeptExtension(file('Archive', { isFolder: true, type: 'application/vnd.google-apps.folder' }))).toBe('');
+    expect(getKeptExtension(file('Budget v2.1', { type: 'application/vnd.google-apps.spreadsheet' }))).toBe('');
+    expect(getKeptExtension(file('Release notes.final draft'))).toBe('');
+  });
+});
+
+describe('checkNameSafety', () => {
+  it('accepts a plain name with its extension', () => {
+    expect(checkNameSafety(file('a.pdf'), '2024-01-05 Invoice.pdf')).toEqual([]);
+  });
+
+  it('reports every problem of a name', () => {
+    expect(checkNameSafety(file('a.pdf'), 'Q1: results')).toEqual([
+      'Extension .pdf is missing',
+      'Contains characters that break sync clients'
+    ]);
+    expect(checkNameSafety(file('a.pdf'), 'CON.pdf')).toEqual(['Reserved name on Windows']);
+    expect(checkNameSafety(file('a.pdf'), `${'x'.repeat(MAX_NAME_LENGTH)}.pdf`)).toEqual([`Longer than ${MAX_NAME_LENGTH} characters`]);
+  });
+});
+
+describe('getSafeName', () => {
+  it('replaces illegal characters and restores the extension', () => {
+    expect(getSafeName(file('a.pdf'), 'Q1: results/summary?')).toBe('Q1 - results-summary.pdf');
+  });
+
+  it('avoids reserved names and caps the length without losing the extension', () => {
+    expect(getSafeName(file('a.txt', { type: 'text/plain' }), 'nul.txt')).toBe('nul_.txt');
+    const long = getSafeName(file('a.pdf'), 'x'.repeat(300));
+    expect(long).toHaveLength(MAX_NAME_LENGTH);
+    expect(long.endsWith('.pdf')).toBe(true);
+  });
+
+  it('falls back to the original name when nothing is left', () => {
+    expect(getSafeName(file('Scan 12.pdf'), '???')).toBe('Scan 12.pdf');
+  });
+
+  it('returns names that pass the check', () => {
+    const original = file('a.pdf');
+    ['a: b', ' trailing. ', 'com1', '<>|'].forEach(name => {
+      expect(checkNameSafety(original, getSafeName(original, name))).toEqual([]);
+    });
+  });
+});
+
+describe('findNameConflicts', () => {
+  beforeEach(() => {
+    setDriveBackend(createMemoryDriveBackend({
+      myDrive: [
+        { name: 'Finance', id: 'finance', children: [{ name: 'Invoice.pdf', id: 'existing' }] },
+        { name: 'Inbox', id: 'inbox', children: [{ name: 'a.pdf', id: 'a' }, { name: 'b.pdf', id: 'b' }, { name: 'c.pdf', id: 'c' }] }
+      ]
+    }));
+  });
+
+  const proposed = (id: string, suggestedName: string, suggestedPath: string): ProcessedFile => ({
+    ...file(`${id}.pdf`, { id, parents: ['inbox'] }),
+    status: 'approved',
+    analysis: {
+      fileId: id, suggestedName, suggestedPath, category: '', shouldArchive: false,
+      sensitivity: 'Normal', reasoning: '', confidence: 1
+    }
+  });
+
+  it('reports names taken in the target folder, ignoring case', async () => {
+    const conflicts = await findNameConflicts([proposed('a', 'invoice.PDF', 'Finance')]);
+    expect(conflicts.a).toMatchObject({ conflictsWith: 'Invoice.pdf', source: 'drive', suggestion: 'invoice (2).pdf' });
+  });
+
+  it('lets the first file of the batch keep a shared name, also in folders that do not exist yet', async () => {
+    const conflicts = await findNameConflicts([
+      proposed('a', 'Report.pdf', 'New/Folder'),
+      proposed('b', 'Report.pdf', 'New/Folder'),
+      proposed('c', 'Report.pdf', 'Other')
+    ]);
+    expect(Object.keys(conflicts)).toEqual(['b']);
+    expect(conflicts.b).toMatchObject({ source: 'batch', suggestion: 'Report (2).pdf' });
+  });
+
+  it('judges files of the batch by their new names', async () => {
+    const conflicts = await findNameConflicts([proposed('a', 'b.pdf', '/'), proposed('b', 'Renamed.pdf', '/')]);
+    expect(conflicts).toEqual({});
+  });
+});
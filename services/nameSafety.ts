@@ -0,0 +1,136 @@
+import { DriveFile, NameConflict, ProcessedFile } from '../types';
+import { splitExtension } from './nameTemplate';
+import { findFolderPath, listDriveFiles } from './driveService';
+
+// Windows and most sync clients reject longer names; Drive itself allows far more
+export const MAX_NAME_LENGTH = 200;
+
+// Characters Windows forbids in file names, plus control characters
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f]/;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+// Google Docs, Sheets etc. have no extension; "v2.1" in their names is not one either
+export const getKeptExtension = (file: DriveFile): string => {
+  if (file.isFolder || file.type.startsWith('application/vnd.google-apps')) return '';
+  const { ext } = splitExtension(file.name);
+  return /^[a-z0-9]{1,8}$/i.test(ext) ? ext : '';
+};
+
+const hasExtension = (name: string, ext: string) => !ext || name.toLowerCase().endsWith(`.${ext.toLowerCase()}`);
+
+const replaceIllegalCharacters = (name: string): string =>
+  name
+    .replace(/\s*:\s*/g, ' - ')
+    .replace(/[/\\|]/g, '-')
+    .replace(/[<>"?*\u0000-\u001f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[. ]+$/, '');
+
+/**
+ * The suggested name made safe for Drive and local sync clients: illegal characters replaced,
+ * the original extension kept, reserved device names avoided and the length capped.
+ */
+export const getSafeName = (file: DriveFile, name: string): string => {
+  const ext = getKeptExtension(file);
+  let safe = replaceIllegalCharacters(name);
+  if (ext && !hasExtension(safe, ext)) safe = `${safe}.${ext}`;
+
+  let base = ext ? safe.slice(0, -(ext.length + 1)) : safe;
+  if (!base.trim()) base = ext ? splitExtension(file.name).base : file.name;
+  if (RESERVED_NAMES.test(base.split('.')[0])) base = `${base}_`;
+  const maxBase = MAX_NAME_LENGTH - (ext ? ext.length + 1 : 0);
+  if (base.length > maxBase) base = base.slice(0, maxBase).replace(/[. ]+$/, '');
+
+  return ext ? `${base}.${ext}` : base;
+};
+
+/**
+ * Problems of a suggested name on its own; collisions are checked separately by findNameConflicts.
+ */
+export const checkNameSafety = (file: DriveFile, name: string): string[] => {
+  const problems: string[] = [];
+  const ext = getKeptExtension(file);
+  if (!name.trim()) problems.push("Name is empty");
+  if (!hasExtension(name, ext)) problems.push(`Extension .${ext} is missing`);
+  if (ILLEGAL_CHARACTERS.test(name) || /[. ]$/.test(name) || name !== name.trim()) {
+    problems.push("Contains characters that break sync clients");
+  }
+  if (RESERVED_NAMES.test(name.split('.')[0].trim())) problems.push("Reserved name on Windows");
+  if (name.length > MAX_NAME_LENGTH) problems.push(`Longer than ${MAX_NAME_LENGTH} characters`);
+  return problems;
+};
+
+// A conflict found earlier no longer applies once the reviewer changed the name or the path
+export const getActiveConflict = (file: ProcessedFile): NameConflict | undefined => {
+  const conflict = file.nameConflict;
+  if (!conflict || !file.analysis) return undefined;
+  return conflict.name === file.analysis.suggestedName && conflict.path === file.analysis.suggestedPath ? conflict : undefined;
+};
+
+const isStaying = (path: string) => !path || path === '/' || path === '.';
+
+// Local sync clients on Windows and macOS treat names differing only in case as the same file
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+const suggestFreeName = (file: DriveFile, name: string, taken: Set<string>): string => {
+  const ext = getKeptExtension(file);
+  const base = ext && hasExtension(name, ext) ? name.slice(0, -(ext.length + 1)) : name;
+  for (let n = 2; ; n++) {
+    const candidate = ext ? `${base} (${n}).${ext}` : `${base} (${n})`;
+    if (!taken.has(nameKey(candidate))) return candidate;
+  }
+};
+
+/**
+ * Finds files that would end up with the same name in the same folder, within the batch and against
+ * the files already in each target folder. Target folders are looked up but never created.
+ * The first file of the batch keeps its name; every later one gets a conflict.
+ * @param files The files about to be synced
+ * @returns Conflicts by file id
+ */
+export const findNameConflicts = async (files: ProcessedFile[]): Promise<Record<string, NameConflict>> => {
+  const groups = new Map<string, { folderId: string | null; files: ProcessedFile[] }>();
+  for (const file of files) {
+    if (!file.analysis) continue;
+    const path = file.analysis.suggestedPath;
+    const folderId = isStaying(path) ? file.parents?.[0] || null : await findFolderPath(path, file.driveId);
+    // Folders that do not exist yet are empty, so only the batch can collide inside them
+    const key = folderId || `new:${file.driveId || 'root'}:${path.split('/').map(p => p.trim()).filter(Boolean).join('/')}`;
+    const group = groups.get(key) || { folderId, files: [] };
+    group.files.push(file);
+    groups.set(key, group);
+  }
+
+  const batchIds = new Set(files.map(f => f.id));
+  const conflicts: Record<string, NameConflict> = {};
+  for (const { folderId, files: groupFiles } of groups.values()) {
+    // Files of the batch are judged by their new names, not by where they are now
+    const existing = folderId
+      ? (await listDriveFiles(folderId, groupFiles[0].driveId)).filter(child => !batchIds.has(child.id))
+      : [];
+    const taken = new Set([...existing.map(child => nameKey(child.name)), ...groupFiles.map(f => nameKey(f.analysis!.suggestedName))]);
+    const claimed = new Map<string, string>();
+
+    for (const file of groupFiles) {
+      const { suggestedName, suggestedPath } = file.analysis!;
+      const key = nameKey(suggestedName);
+      const onDrive = existing.find(child => nameKey(child.name) === key);
+      const inBatch = claimed.get(key);
+      if (onDrive || inBatch) {
+        const suggestion = suggestFreeName(file, suggestedName, taken);
+        taken.add(nameKey(suggestion));
+        conflicts[file.id] = {
+          name: suggestedName,
+          path: suggestedPath,
+          conflictsWith: onDrive ? onDrive.name : inBatch!,
+          source: onDrive ? 'drive' : 'batch',
+          suggestion
+        };
+      } else {
+        claimed.set(key, file.name);
+      }
+    }
+  }
+  return conflicts;
+};
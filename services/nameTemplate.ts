@@ -0,0 +1,47 @@
+import { DriveFile } from '../types';
+
+export const splitExtension = (fileName: string): { base: string; ext: string } => {
+  const dot = fileName.lastIndexOf('.');
+  // A leading dot (".env") is not an extension
+  if (dot <= 0 || dot === fileName.length - 1) return { base: fileName, ext: '' };
+  return { base: fileName.substring(0, dot), ext: fileName.substring(dot + 1) };
+};
+
+/**
+ * Placeholder values available for a file: its name parts, its parent folder and
+ * the parts of its last modified date.
+ */
+export const getFileTemplateValues = (file: DriveFile): Record<string, string> => {
+  const { base, ext } = splitExtension(file.name);
+  const date = new Date(file.lastModified);
+  const yyyy = String(date.getFullYear());
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+
+  return {
+    name: file.name,
+    basename: base,
+    ext,
+    parent: file.parentFolderName || '',
+    YYYY: yyyy,
+    MM: mm,
+    DD: dd,
+    'YYYY-MM': `${yyyy}-${mm}`,
+    'YYYY-MM-DD': `${yyyy}-${mm}-${dd}`
+  };
+};
+
+/**
+ * Replaces `{placeholder}` tokens with their values. Unknown placeholders are left untouched
+ * so mistakes stay visible in the review table instead of silently disappearing.
+ */
+export const renderTemplate = (template: string, values: Record<string, string | undefined>): string => {
+  return template
+    .replace(/\{([^{}]+)\}/g, (match, key: string) => {
+      const value = values[key.trim()];
+      return value !== undefined ? value : match;
+    })
+    // A template like "{basename}.{ext}" must not leave a trailing dot when there is no extension
+    .replace(/\.$/, '')
+    .trim();
+};
@@ -0,0 +1,128 @@
+import { AnalysisResult, CategoryDefinition, DriveFile, ExtractedFields } from '../types';
+import { findCategory, getCategoryLabel } from './taxonomyService';
+import { renderTemplate } from './nameTemplate';
+import { getKeptExtension } from './nameSafety';
+
+interface NamingPlaceholder {
+  key: string;
+  description: string;
+  pattern: string; // What a conforming name holds in its place
+}
+
+// Placeholders of category naming templates. Dates come from the document, not from Drive's modified date.
+export const NAMING_PLACEHOLDERS: NamingPlaceholder[] = [
+  { key: 'YYYY-MM-DD', description: 'date stated in the document', pattern: '\\d{4}-\\d{2}-\\d{2}' },
+  { key: 'YYYY-MM', description: 'year and month of that date', pattern: '\\d{4}-\\d{2}' },
+  { key: 'YYYY', description: 'year of that date', pattern: '\\d{4}' },
+  { key: 'Counterparty', description: 'other party (vendor, bank, employer, client or authority)', pattern: '.+?' },
+  { key: 'Doc type', description: 'short document type, e.g. "Invoice"', pattern: '.+?' },
+  { key: 'Title', description: 'short subject', pattern: '.+?' },
+  { key: 'ext', description: 'original extension', pattern: '' }
+];
+
+export interface NamingIssue {
+  template: string;
+  missing: string[]; // Placeholders the extracted fields cannot fill
+  fix?: string; // Name rendered from the extracted fields; absent while anything is missing
+}
+
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const getNamingTemplate = (taxonomy: CategoryDefinition[], category?: string): string | undefined =>
+  findCategory(taxonomy, category)?.nameTemplate?.trim() || undefined;
+
+const getTemplateKeys = (template: string): string[] =>
+  Array.from(template.matchAll(PLACEHOLDER_PATTERN), m => m[1].trim());
+
+// Without an extension, "{...}.{ext}" stands for a name without the trailing dot (as renderTemplate does)
+const forExtension = (template: string, ext: string) => ext ? template : template.replace(/\.\{\s*ext\s*\}$/, '');
+
+const getFieldValues = (file: DriveFile, fields: ExtractedFields = {}): Record<string, string | undefined> => {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(fields.documentDate || '') ? fields.documentDate! : undefined;
+  return {
+    'YYYY-MM-DD': date,
+    'YYYY-MM': date?.substring(0, 7),
+    'YYYY': date?.substring(0, 4),
+    'Counterparty': fields.counterparty?.trim() || undefined,
+    'Doc type': fields.docType?.trim() || undefined,
+    'Title': fields.title?.trim() || undefined,
+    'ext': getKeptExtension(file)
+  };
+};
+
+const matchesTemplate = (name: string, template: string, ext: string): boolean => {
+  let pattern = '';
+  let last = 0;
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    pattern += escapeRegExp(template.substring(last, match.index));
+    const key = match[1].trim();
+    const placeholder = NAMING_PLACEHOLDERS.find(p => p.key === key);
+    pattern += key === 'ext' ? escapeRegExp(ext) : placeholder?.pattern || '.+?';
+    last = match.index! + match[0].length;
+  }
+  pattern += escapeRegExp(template.substring(last));
+  return new RegExp(`^${pattern}$`).test(name);
+};
+
+/**
+ * Checks a suggested name against the naming template of its category.
+ * Returns null when the category has no template, the entry is a folder, or the name conforms.
+ */
+export const checkNamingConvention = (
+  file: DriveFile,
+  analysis: AnalysisResult,
+  taxonomy: CategoryDefinition[]
+): NamingIssue | null => {
+  const template = getNamingTemplate(taxonomy, analysis.category);
+  if (!template || file.isFolder) return null;
+
+  const values = getFieldValues(file, analysis.fields);
+  const effective = forExtension(template, values.ext!);
+  if (matchesTemplate(analysis.suggestedName, effective, values.ext!)) return null;
+
+  const missing = getTemplateKeys(effective).filter(key => !values[key]);
+  return {
+    template,
+    missing,
+    fix: missing.length === 0 ? renderTemplate(effective, values) : undefined
+  };
+};
+
+/**
+ * Renames a model suggestion to its category's convention when the extracted fields allow it.
+ * Names that cannot be fixed are left for the reviewer; checkNamingConvention reports them.
+ */
+export const applyNamingConvention = (file: DriveFile, result: AnalysisResult, taxonomy: CategoryDefinition[]): AnalysisResult => {
+  const issue = checkNamingConvention(file, result, taxonomy);
+  return issue?.fix ? { ...result, suggestedName: issue.fix } : result;
+};
+
+/**
+ * Prompt section listing the categories that have a naming template; empty when none has one.
+ */
+export const describeNamingConventions = (taxonomy: CategoryDefinition[]): string => {
+  const templates = taxonomy.filter(c => c.nameTemplate?.trim());
+  if (templates.length === 0) return '';
+
+  const placeholders = NAMING_PLACEHOLDERS.map(p => `{${p.key}} is the ${p.description}`).join('; ');
+  const lines = templates.map(c => `- ${getCategoryLabel(c)}: ${c.nameTemplate!.trim()}`).join('\n');
+  return `
+NAMING CONVENTIONS (OVERRIDE THE RENAMING RULES ABOVE)
+Files in these categories must be named exactly by their template. ${placeholders}.
+${lines}
+If the content does not state a value a template needs, keep a clear descriptive name and say which value is missing in 'reasoning'.
+`;
+};
+
+/**
+ * Returns a problem for every naming template that uses a placeholder the validator does not know.
+ */
+export const validateNamingTemplates = (taxonomy: CategoryDefinition[]): string[] =>
+  taxonomy.flatMap(category => {
+    const unknown = getTemplateKeys(category.nameTemplate || '').filter(key => !NAMING_PLACEHOLDERS.some(p => p.key === key));
+    return unknown.length > 0
+      ? [`"${category.name}" naming convention has unknown placeholders: ${unknown.map(k => `{${k}}`).join(', ')}.`]
+      : [];
+  });
@@ -0,0 +1,73 @@
+import { LlmProvider, JsonSchema } from './llmProvider';
+
+/**
+ * Whether a base URL can be used for requests: absolute, http(s) and with a host.
+ */
+export const isValidBaseUrl = (baseUrl: string): boolean => {
+  try {
+    const url = new URL(baseUrl.trim());
+    return (url.protocol === 'http:' || url.protocol === 'https:') && !!url.host;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as a local
+ * Ollama (`http://localhost:11434/v1`) or llama.cpp server. Nothing leaves the machine
+ * unless the base URL points elsewhere.
+ */
+export const createOpenAiCompatibleProvider = (baseUrl: string, model: string, apiKey?: string): LlmProvider => {
+  const endpoint = `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    // Settings validate the URL, but a stored one may predate that; the request then reports the error
+    label: `${model} · ${isValidBaseUrl(baseUrl) ? new URL(endpoint).host : baseUrl.trim() || 'no server URL'}`,
+    generateJson: async ({ systemInstruction, parts, responseSchema }) => {
+      // Structured output requires an object at the root, so arrays are wrapped in { results }
+      const isArray = responseSchema.type === 'array';
+      const schema: JsonSchema = isArray
+        ? { type: 'object', properties: { results: responseSchema }, required: ['results'] }
+        : responseSchema;
+
+      const content = parts.map(part => 'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+      );
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [
+            { role: 'system', content: systemInstruction },
+            { role: 'user', content }
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'analysis', schema }
+          }
+        })
+      });
+
+      if (!response.ok) {
+        const error: any = new Error(`${response.status} ${response.statusText}: ${await response.text()}`);
+        error.status = response.status;
+        throw error;
+      }
+
+      const data = await response.json();
+      const text: string = data.choices?.[0]?.message?.content || '';
+      if (!text) return [];
+
+      // Some local models wrap JSON in a markdown fence despite the response format
+      const parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+      return isArray && parsed && !Array.isArray(parsed) ? parsed.results : parsed;
+    }
+  };
+};
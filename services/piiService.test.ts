@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { DriveFile } from '../types';
+import { redactFile, SNIPPET_LENGTH } from './piiService';
+
+const file = (name: string, extra: Partial<DriveFile> = {}): DriveFile => ({
+  id: name,
+  name,
+  size: 100,
+  type: 'application/pdf',
+  lastModified: 0,
+  ...extra
+});
+
+describe('redactFile', () => {
+  it('finds a value cut in half by the snippet length', () => {
+    const text = `${'x '.repeat((SNIPPET_LENGTH - 5) / 2)}SSN 123-45-6789`;
+    const redacted = redactFile(file('a.pdf'), text);
+    expect(redacted.contentSnippet).toHaveLength(SNIPPET_LENGTH);
+    expect(redacted.contentSnippet).not.toContain('123');
+    expect(redacted.piiFindings).toEqual([{ detector: 'ssn', count: 1 }]);
+    expect(redacted.piiSensitivity).toBe('High Risk');
+  });
+
+  it('redacts names for the model but keeps the real name', () => {
+    const folder = file('jane@example.com', {
+      isFolder: true,
+      folderSummary: { fileCount: 1, folderCount: 0, childNames: ['password=hunter2.txt'] },
+      piiFindings: [{ detector: 'email', count: 1 }]
+    });
+    const redacted = redactFile(folder, '');
+    expect(redacted.name).toBe('jane@example.com');
+    expect(redacted.redactedName).toBe('[REDACTED:EMAIL]');
+    expect(redacted.folderSummary!.childNames).toEqual(['password=[REDACTED:PASSWORD]']);
+    expect(redacted.piiFindings).toEqual([{ detector: 'email', count: 2 }, { detector: 'password', count: 1 }]);
+  });
+
+  it('drops the image of a flagged file only', () => {
+    const image = { mimeType: 'image/jpeg', data: '' };
+    expect(redactFile(file('scan.pdf', { image }), 'Nothing to see').image).toBe(image);
+    expect(redactFile(file('scan.pdf', { image }), 'pwd: letmein').image).toBeUndefined();
+  });
+});
@@ -0,0 +1,190 @@
+import { DriveFile, AnalysisResult, PiiFinding, PiiDetectorId, SensitivityLevel } from '../types';
+
+interface Detector {
+  id: PiiDetectorId;
+  label: string;
+  level: SensitivityLevel;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+  // Index of the capture group to redact; the whole match when omitted
+  redactGroup?: number;
+}
+
+const SENSITIVITY_ORDER: SensitivityLevel[] = ['Normal', 'Confidential', 'High Risk'];
+
+export const maxSensitivity = (a: SensitivityLevel, b?: SensitivityLevel): SensitivityLevel => {
+  if (!b) return a;
+  return SENSITIVITY_ORDER.indexOf(b) > SENSITIVITY_ORDER.indexOf(a) ? b : a;
+};
+
+const luhnValid = (candidate: string): boolean => {
+  const digits = candidate.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = parseInt(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+};
+
+// ISO 13616 check: move the first four characters to the end, map letters to numbers, mod 97 must be 1
+const ibanValid = (candidate: string): boolean => {
+  const iban = candidate.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const value = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of value) remainder = (remainder * 10 + parseInt(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+const DETECTORS: Detector[] = [
+  {
+    id: 'private_key',
+    label: 'Private Key',
+    level: 'High Risk',
+    pattern: /-----BEGIN (?:RSA |EC |OPENSSH |DSA )?PRIVATE KEY-----[\s\S]*?(?:-----END (?:RSA |EC |OPENSSH |DSA )?PRIVATE KEY-----|$)/g
+  },
+  {
+    id: 'api_key',
+    label: 'API Key / Token',
+    level: 'High Risk',
+    pattern: /\b(?:AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|sk-[A-Za-z0-9_-]{20,}|eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g
+  },
+  {
+    id: 'password',
+    label: 'Password',
+    level: 'High Risk',
+    pattern: /\b(?:password|passwd|pwd|passcode|secret)\s*[:=]\s*(\S+)/gi,
+    redactGroup: 1
+  },
+  {
+    id: 'ssn',
+    label: 'SSN',
+    level: 'High Risk',
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g
+  },
+  {
+    id: 'credit_card',
+    label: 'Credit Card',
+    level: 'High Risk',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhnValid
+  },
+  {
+    id: 'iban',
+    label: 'IBAN',
+    level: 'Confidential',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: ibanValid
+  },
+  {
+    id: 'email',
+    label: 'Email',
+    level: 'Normal',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+  },
+];
+
+// Characters of extracted text kept on a file and sent to the model
+export const SNIPPET_LENGTH = 1000;
+
+export const getDetectorLabel = (id: PiiDetectorId): string => {
+  return DETECTORS.find(d => d.id === id)?.label || id;
+};
+
+/**
+ * Finds and redacts sensitive values in a piece of text. Detectors run in order, and
+ * earlier redactions are not re-scanned (a key inside a private key block counts once).
+ */
+export const scanAndRedact = (text: string): { redacted: string; findings: PiiFinding[]; level: SensitivityLevel } => {
+  let redacted = text;
+  const findings: PiiFinding[] = [];
+  let level: SensitivityLevel = 'Normal';
+
+  for (const detector of DETECTORS) {
+    let count = 0;
+    redacted = redacted.replace(detector.pattern, (match, ...groups) => {
+      if (detector.validate && !detector.validate(match)) return match;
+      count++;
+      const placeholder = `[REDACTED:${detector.id.toUpperCase()}]`;
+      if (detector.redactGroup !== undefined) {
+        const secret = groups[detector.redactGroup - 1];
+        return typeof secret === 'string' ? match.replace(secret, placeholder) : placeholder;
+      }
+      return placeholder;
+    });
+    if (count > 0) {
+      findings.push({ detector: detector.id, count });
+      level = maxSensitivity(level, detector.level);
+    }
+  }
+
+  return { redacted, findings, level };
+};
+
+const mergeFindings = (a: PiiFinding[], b: PiiFinding[]): PiiFinding[] => {
+  const merged = a.map(f => ({ ...f }));
+  b.forEach(finding => {
+    const existing = merged.find(f => f.detector === finding.detector);
+    if (existing) existing.count += finding.count;
+    else merged.push({ ...finding });
+  });
+  return merged;
+};
+
+const levelOf = (findings: PiiFinding[]): SensitivityLevel =>
+  findings.reduce<SensitivityLevel>((level, f) => maxSensitivity(level, DETECTORS.find(d => d.id === f.detector)?.level), 'Normal');
+
+/**
+ * Redacts the whole text before cutting it, so a value straddling the cut is still found.
+ */
+export const redactExcerpt = (text: string, maxLength: number): { text: string; findings: PiiFinding[] } => {
+  const { redacted, findings } = scanAndRedact(text);
+  return { text: redacted.substring(0, maxLength), findings };
+};
+
+/**
+ * Runs the local scanner on a file before anything is persisted or sent to the model: the full
+ * extracted text (the snippet is cut from the redacted text), the name and a folder's child names.
+ * Findings already on the file (e.g. from a folder's sampled children) are kept.
+ * A flagged file loses its image, which the scanner cannot read.
+ * @param fullText Everything extracted from the file; the current snippet when omitted
+ */
+export const redactFile = (file: DriveFile, fullText = file.contentSnippet): DriveFile => {
+  const content = fullText ? redactExcerpt(fullText, SNIPPET_LENGTH) : undefined;
+  const name = scanAndRedact(file.name);
+  const childNames = (file.folderSummary?.childNames || []).map(childName => scanAndRedact(childName));
+  const findings = [content?.findings || [], name.findings, ...childNames.map(c => c.findings)]
+    .reduce(mergeFindings, file.piiFindings || []);
+
+  const scanned: DriveFile = { ...file, contentSnippet: content?.text };
+  if (findings.length === 0) return scanned;
+  return {
+    ...scanned,
+    redactedName: name.findings.length > 0 ? name.redacted : undefined,
+    folderSummary: file.folderSummary && { ...file.folderSummary, childNames: childNames.map(c => c.redacted) },
+    piiFindings: findings,
+    piiSensitivity: levelOf(findings),
+    image: undefined
+  };
+};
+
+/**
+ * The model may not lower the sensitivity below what the local scan found.
+ */
+export const enforceSensitivityFloor = (file: DriveFile, result: AnalysisResult): AnalysisResult => {
+  if (!file.piiSensitivity) return result;
+  return { ...result, sensitivity: maxSensitivity(result.sensitivity, file.piiSensitivity) };
+};
+
+export const describeFindings = (findings: PiiFinding[]): string => {
+  return findings.map(f => `${getDetectorLabel(f.detector)} (${f.count})`).join(', ');
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessedFile } from '../types';
+import { exportPlanCsv, parseCsv, validatePlanRows, PLAN_COLUMNS } from './planSheetService';
+import { DEFAULT_TAXONOMY, getCategoryLabel } from './taxonomyService';
+
+const [WORK, PERSONAL] = DEFAULT_TAXONOMY.map(getCategoryLabel);
+
+const file = (id: string, extra: Partial<ProcessedFile> = {}): ProcessedFile => ({
+  id,
+  name: `${id}.pdf`,
+  size: 100,
+  type: 'application/pdf',
+  lastModified: 0,
+  status: 'pending',
+  analysis: {
+    fileId: id,
+    suggestedName: `${id} renamed.pdf`,
+    suggestedPath: 'Work/Tax',
+    category: WORK,
+    sensitivity: 'Normal',
+    shouldArchive: false,
+    confidence: 0.9,
+    reasoning: 'Looks like work'
+  },
+  ...extra
+});
+
+// The exported sheet with one cell changed per row, as a spreadsheet app would save it
+const editedSheet = (files: ProcessedFile[], edits: Record<string, Partial<Record<typeof PLAN_COLUMNS[number], string>>>) => {
+  const rows = parseCsv(exportPlanCsv(files));
+  const header = rows[0];
+  return rows.map((cells, r) => {
+    const changes = r === 0 ? {} : edits[cells[0]] || {};
+    return cells.map((value, c) => changes[header[c] as typeof PLAN_COLUMNS[number]] ?? value);
+  });
+};
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes and line breaks inside fields', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nagain"\r\n')).toEqual([['a', 'b'], ['x, y', 'say "hi"\nagain']]);
+  });
+
+  it('strips the BOM and detects semicolon-separated files', () => {
+    expect(parseCsv('\uFEFFid;name\n1;a,b')).toEqual([['id', 'name'], ['1', 'a,b']]);
+  });
+
+  it('keeps a last line without a line break', () => {
+    expect(parseCsv('a\nb')).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('validatePlanRows', () => {
+  it('reports nothing for an unchanged export', () => {
+    const files = [file('a'), file('b')];
+    expect(validatePlanRows(parseCsv(exportPlanCsv(files)), files, DEFAULT_TAXONOMY))
+      .toEqual({ changes: [], issues: [], unchanged: 2 });
+  });
+
+  it('returns the edited values and statuses', () => {
+    const files = [file('a')];
+    const rows = editedSheet(files, { a: { suggested_name: 'New.pdf', suggested_path: '/Home/', status: 'approved' } });
+    expect(validatePlanRows(rows, files, DEFAULT_TAXONOMY).changes).toEqual([
+      { fileId: 'a', updates: { suggestedName: 'New.pdf', suggestedPath: 'Home' }, status: 'approved' }
+    ]);
+  });
+
+  it('requires the id column', () => {
+    const report = validatePlanRows([['name'], ['x']], [file('a')], DEFAULT_TAXONOMY);
+    expect(report.issues).toEqual([expect.objectContaining({ row: 1 })]);
+  });
+
+  it('skips a row with any invalid value as a whole', () => {
+    const files = [file('a')];
+    const rows = editedSheet(files, { a: { suggested_name: 'Fine.pdf', sensitivity: 'Secret' } });
+    const report = validatePlanRows(rows, files, DEFAULT_TAXONOMY);
+    expect(report.changes).toEqual([]);
+    expect(report.issues).toEqual([expect.objectContaining({ row: 2, fileId: 'a' })]);
+  });
+
+  it('reports unknown ids, repeated rows and paths leaving the drive', () => {
+    const files = [file('a'), file('b')];
+    const rows = editedSheet(files, { b: { suggested_path: 'Work/../..' } });
+    rows.push(['zzz'], rows[1]);
+    const issueRows = validatePlanRows(rows, files, DEFAULT_TAXONOMY).issues.map(i => i.row);
+    expect(issueRows).toEqual([3, 4, 5]);
+  });
+
+  it('accepts categories in any case and stores their exact label', () => {
+    const files = [file('a')];
+    const rows = editedSheet(files, { a: { category: PERSONAL.toLowerCase() } });
+    expect(validatePlanRows(rows, files, DEFAULT_TAXONOMY).changes).toEqual([{ fileId: 'a', updates: { category: PERSONAL }, status: undefined }]);
+  });
+
+  it('does not change synced files', () => {
+    const files = [file('a', { status: 'synced' })];
+    const rows = editedSheet(files, { a: { status: 'pending' } });
+    expect(validatePlanRows(rows, files, DEFAULT_TAXONOMY).issues).toHaveLength(1);
+  });
+
+  it('neutralizes formulas on export and restores the values on import', () => {
+    const files = [file('a', { name: '=HYPERLINK("http://x")' })];
+    files[0].analysis!.suggestedName = '+1 phone list.pdf';
+    const csv = exportPlanCsv(files);
+    expect(csv).toContain(`"'=HYPERLINK(""http://x"")"`);
+    expect(csv).toContain(`'+1 phone list.pdf`);
+    expect(validatePlanRows(parseCsv(csv), files, DEFAULT_TAXONOMY)).toEqual({ changes: [], issues: [], unchanged: 1 });
+  });
+});
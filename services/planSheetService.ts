@@ -0,0 +1,319 @@
+import { zipSync, strToU8 } from 'fflate';
+import { ProcessedFile, AnalysisResult, CategoryDefinition, SensitivityLevel } from '../types';
+import { getCategoryLabel } from './taxonomyService';
+import { readXlsxRows } from './extractionService';
+
+// Column order of the exported sheet. Only id is required on import; missing columns are left unchanged.
+export const PLAN_COLUMNS = [
+  'id', 'original_name', 'suggested_name', 'suggested_path', 'category',
+  'sensitivity', 'should_archive', 'confidence', 'reasoning', 'status'
+] as const;
+
+type PlanColumn = typeof PLAN_COLUMNS[number];
+
+const SENSITIVITY_LEVELS: SensitivityLevel[] = ['Normal', 'Confidential', 'High Risk'];
+// Statuses a reviewer can set from the sheet; synced and failed files are read-only
+const EDITABLE_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export interface PlanChange {
+  fileId: string;
+  updates: Partial<AnalysisResult>;
+  status?: typeof EDITABLE_STATUSES[number];
+}
+
+export interface PlanIssue {
+  row: number; // 1-based, as shown by spreadsheet apps (the header is row 1)
+  fileId?: string;
+  message: string;
+}
+
+export interface PlanImportReport {
+  changes: PlanChange[];
+  issues: PlanIssue[];
+  unchanged: number;
+}
+
+const toRow = (file: ProcessedFile): Record<PlanColumn, string> => ({
+  id: file.id,
+  original_name: file.name,
+  suggested_name: file.analysis?.suggestedName || '',
+  suggested_path: file.analysis?.suggestedPath || '',
+  category: file.analysis?.category || '',
+  sensitivity: file.analysis?.sensitivity || '',
+  should_archive: file.analysis ? String(file.analysis.shouldArchive).toUpperCase() : '',
+  confidence: file.analysis ? file.analysis.confidence.toFixed(2) : '',
+  reasoning: file.analysis?.reasoning || '',
+  status: file.status
+});
+
+// --- EXPORT ---
+
+// Spreadsheet apps run cells starting with these as formulas, so a crafted file name could execute one
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+const neutralizeFormula = (value: string): string => FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+
+const escapeCsv = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Serializes the batch as CSV. Starts with a BOM so Excel reads it as UTF-8.
+ */
+export const exportPlanCsv = (files: ProcessedFile[]): string => {
+  const lines = [PLAN_COLUMNS.join(',')];
+  files.forEach(file => {
+    const row = toRow(file);
+    lines.push(PLAN_COLUMNS.map(col => escapeCsv(neutralizeFormula(row[col]))).join(','));
+  });
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+};
+
+// 0 -> "A", 26 -> "AA"
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * Serializes the batch as a single-sheet .xlsx workbook (inline strings, no styles).
+ */
+export const exportPlanXlsx = (files: ProcessedFile[]): Uint8Array => {
+  const rows: string[][] = [
+    [...PLAN_COLUMNS],
+    ...files.map(file => {
+      const row = toRow(file);
+      return PLAN_COLUMNS.map(col => row[col]);
+    })
+  ];
+
+  const sheetRows = rows.map((cells, r) => {
+    const xmlCells = cells.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (r > 0 && PLAN_COLUMNS[c] === 'confidence' && value !== '') {
+        return `<c r="${ref}"><v>${value}</v></c>`;
+      }
+      const text = r > 0 ? neutralizeFormula(value) : value;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${xmlCells.join('')}</row>`;
+  });
+
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  return zipSync({
+    '[Content_Types].xml': strToU8(`${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '</Types>'),
+    '_rels/.rels': strToU8(`${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>'),
+    'xl/workbook.xml': strToU8(`${xml}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+      + '<sheets><sheet name="Plan" sheetId="1" r:id="rId1"/></sheets></workbook>'),
+    'xl/_rels/workbook.xml.rels': strToU8(`${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '</Relationships>'),
+    'xl/worksheets/sheet1.xml': strToU8(`${xml}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+      + `<sheetData>${sheetRows.join('')}</sheetData></worksheet>`)
+  });
+};
+
+// --- IMPORT ---
+
+/**
+ * Parses CSV text (RFC 4180 quoting). The delimiter is taken from the header line, since
+ * spreadsheet apps in some locales save with semicolons.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Reads the rows of an exported plan that was edited in a spreadsheet app (.csv or .xlsx).
+ */
+export const readPlanFile = async (file: File): Promise<string[][]> => {
+  const data = await file.arrayBuffer();
+  if (file.name.toLowerCase().endsWith('.xlsx')) return readXlsxRows(data);
+  return parseCsv(new TextDecoder().decode(data));
+};
+
+// Undoes neutralizeFormula; an apostrophe before anything else is part of the value
+const restoreFormulaPrefix = (value: string): string =>
+  value.startsWith("'") && FORMULA_TRIGGER.test(value.substring(1)) ? value.substring(1) : value;
+
+const parseBoolean = (value: string): boolean | undefined => {
+  const v = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(v)) return true;
+  if (['false', 'no', 'n', '0'].includes(v)) return false;
+  return undefined;
+};
+
+/**
+ * Compares the edited sheet with the current batch and returns the changes to apply.
+ * Rows with any invalid value are reported and skipped as a whole, so a row is never half-applied.
+ */
+export const validatePlanRows = (
+  rows: string[][],
+  files: ProcessedFile[],
+  taxonomy: CategoryDefinition[]
+): PlanImportReport => {
+  const report: PlanImportReport = { changes: [], issues: [], unchanged: 0 };
+  if (rows.length === 0) {
+    report.issues.push({ row: 1, message: "The file is empty." });
+    return report;
+  }
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const columnIndex = (col: PlanColumn) => header.indexOf(col);
+  if (columnIndex('id') === -1) {
+    report.issues.push({ row: 1, message: "Missing the \"id\" column. Export the plan first and edit that file." });
+    return report;
+  }
+
+  const byId = new Map(files.map(f => [f.id, f]));
+  const seen = new Set<string>();
+
+  rows.slice(1).forEach((cells, i) => {
+    const rowNumber = i + 2;
+    if (cells.every(c => c.trim() === '')) return;
+
+    const cell = (col: PlanColumn): string | undefined => {
+      const index = columnIndex(col);
+      return index === -1 ? undefined : restoreFormulaPrefix(cells[index] ?? '').trim();
+    };
+
+    const fileId = cell('id')!;
+    const file = byId.get(fileId);
+    if (!file) {
+      report.issues.push({ row: rowNumber, fileId, message: `No file with id "${fileId}" in this batch.` });
+      return;
+    }
+    if (seen.has(fileId)) {
+      report.issues.push({ row: rowNumber, fileId, message: "This file appears more than once." });
+      return;
+    }
+    seen.add(fileId);
+
+    const errors: string[] = [];
+    const updates: Partial<AnalysisResult> = {};
+    const analysis = file.analysis;
+
+    const name = cell('suggested_name');
+    if (name !== undefined && name !== (analysis?.suggestedName || '')) {
+      if (!name) errors.push("suggested_name is empty.");
+      else if (/[\/\\]/.test(name)) errors.push("suggested_name must not contain slashes.");
+      else updates.suggestedName = name;
+    }
+
+    const path = cell('suggested_path');
+    if (path !== undefined && path !== (analysis?.suggestedPath || '')) {
+      if (path.split('/').some(part => part.trim() === '..')) errors.push("suggested_path must not contain \"..\".");
+      else updates.suggestedPath = path.replace(/^\/+|\/+$/g, '');
+    }
+
+    // Matched regardless of case, but stored by its exact label so lookups elsewhere find it
+    const category = cell('category');
+    if (category !== undefined && category !== (analysis?.category || '')) {
+      const match = taxonomy.find(c => getCategoryLabel(c).toLowerCase() === category.toLowerCase());
+      if (!match) errors.push(`Unknown category "${category}".`);
+      else if (getCategoryLabel(match) !== analysis?.category) updates.category = getCategoryLabel(match);
+    }
+
+    const sensitivity = cell('sensitivity');
+    if (sensitivity !== undefined && sensitivity !== (analysis?.sensitivity || '')) {
+      const level = SENSITIVITY_LEVELS.find(l => l.toLowerCase() === sensitivity.toLowerCase());
+      if (!level) errors.push(`Sensitivity must be one of ${SENSITIVITY_LEVELS.join(', ')}.`);
+      else if (level !== analysis?.sensitivity) updates.sensitivity = level;
+    }
+
+    const archive = cell('should_archive');
+    if (archive !== undefined && archive !== '') {
+      const value = parseBoolean(archive);
+      if (value === undefined) errors.push("should_archive must be TRUE or FALSE.");
+      else if (value !== analysis?.shouldArchive) updates.shouldArchive = value;
+    }
+
+    let status: PlanChange['status'];
+    const statusCell = cell('status')?.toLowerCase();
+    if (statusCell !== undefined && statusCell !== '' && statusCell !== file.status) {
+      if (file.status === 'synced' || file.status === 'error') {
+        errors.push(`The file is already ${file.status === 'synced' ? 'synced' : 'failed'}; its status cannot be changed here.`);
+      } else if (!(EDITABLE_STATUSES as readonly string[]).includes(statusCell)) {
+        errors.push(`Status must be one of ${EDITABLE_STATUSES.join(', ')}.`);
+      } else {
+        status = statusCell as PlanChange['status'];
+      }
+    }
+
+    if (!analysis && Object.keys(updates).length > 0) {
+      errors.push("Analysis failed for this file; only its status can be changed.");
+    }
+    if (file.status === 'synced' && Object.keys(updates).length > 0) {
+      errors.push("The file is already synced; its suggestion cannot be changed.");
+    }
+
+    if (errors.length > 0) {
+      errors.forEach(message => report.issues.push({ row: rowNumber, fileId, message }));
+    } else if (Object.keys(updates).length > 0 || status) {
+      report.changes.push({ fileId, updates, status });
+    } else {
+      report.unchanged++;
+    }
+  });
+
+  return report;
+};
@@ -0,0 +1,147 @@
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface SchedulerOptions {
+  // Burst size: how many requests may start back to back
+  capacity: number;
+  // Sustained rate in requests per second
+  refillPerSecond: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Reasons Drive returns with a 403 when the request would succeed if sent later
+const RATE_LIMIT_REASONS = ['userRateLimitExceeded', 'rateLimitExceeded'];
+
+const getStatus = (err: any): number | undefined => {
+  const status = err?.status ?? err?.result?.error?.code;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const isRateLimitError = (err: any): boolean => {
+  const status = getStatus(err);
+  if (status === 429) return true;
+  const reason = err?.result?.error?.errors?.[0]?.reason;
+  return status === 403 && RATE_LIMIT_REASONS.includes(reason);
+};
+
+export const isUnauthorizedError = (err: any): boolean => getStatus(err) === 401;
+
+/**
+ * Rate limits (429, or 403 with a rate-limit reason), server errors (5xx) and dropped connections
+ * are worth retrying; anything else (not found, no permission) will fail the same way again.
+ */
+export const isTransientDriveError = (err: any): boolean => {
+  if (isRateLimitError(err)) return true;
+  const status = getStatus(err);
+  if (status === undefined) return err instanceof TypeError; // fetch network failure
+  return status === 0 || status >= 500;
+};
+
+/**
+ * Spaces out API requests with a token bucket and retries transient failures with
+ * exponential backoff and full jitter. A rate-limit response pauses every queued request,
+ * not just the one that hit it, since they share the same quota.
+ * A 401 also holds the queue: requests wait while the auth handler signs in again, then the
+ * failed request is retried.
+ */
+export const createRequestScheduler = (options: SchedulerOptions) => {
+  let tokens = options.capacity;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let authHandler: (() => Promise<void>) | null = null;
+  let authGate: Promise<void> | null = null;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(options.capacity, tokens + ((now - lastRefill) / 1000) * options.refillPerSecond);
+    lastRefill = now;
+  };
+
+  // Waits until `cost` tokens are available and takes them
+  const acquire = async (cost: number) => {
+    const needed = Math.min(cost, options.capacity);
+    for (;;) {
+      if (authGate) {
+        await authGate.catch(() => {});
+        continue;
+      }
+      const pause = pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+      refill();
+      if (tokens >= needed) {
+        tokens -= needed;
+        return;
+      }
+      await sleep(((needed - tokens) / options.refillPerSecond) * 1000);
+    }
+  };
+
+  const backoffDelay = (attempt: number): number => {
+    const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+    return Math.random() * ceiling;
+  };
+
+  /**
+   * Pauses the queue and runs the auth handler once, however many requests hit a 401 meanwhile.
+   * Rejects if there is no handler or signing in failed.
+   */
+  const reauthenticate = (): Promise<void> => {
+    if (!authHandler) return Promise.reject(new Error("Session expired. Please reconnect."));
+    if (!authGate) {
+      authGate = authHandler().finally(() => {
+        authGate = null;
+      });
+    }
+    return authGate;
+  };
+
+  /**
+   * Runs `fn` once enough tokens are available, retrying transient errors.
+   * @param cost Number of API requests `fn` makes (a batch request counts each inner request)
+   */
+  const schedule = async <T>(fn: () => Promise<T>, cost = 1): Promise<T> => {
+    let reauthenticated = false;
+    for (let attempt = 0; ; attempt++) {
+      await acquire(cost);
+      try {
+        return await fn();
+      } catch (err) {
+        // One sign-in per request; a second 401 means the new token does not grant access either
+        if (isUnauthorizedError(err) && authHandler && !reauthenticated) {
+          reauthenticated = true;
+          try {
+            await reauthenticate();
+          } catch {
+            throw err;
+          }
+          continue;
+        }
+        if (attempt >= options.maxRetries || !isTransientDriveError(err)) throw err;
+        const delay = backoffDelay(attempt);
+        if (isRateLimitError(err)) pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+        await sleep(delay);
+      }
+    }
+  };
+
+  const setAuthHandler = (handler: (() => Promise<void>) | null) => {
+    authHandler = handler;
+  };
+
+  return { schedule, backoffDelay, reauthenticate, setAuthHandler };
+};
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>;
+
+// Drive allows a few writes per second per user sustained; bursts are fine
+export const driveScheduler = createRequestScheduler({
+  capacity: 20,
+  refillPerSecond: 5,
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 32000
+});
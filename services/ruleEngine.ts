@@ -0,0 +1,147 @@
+import { DriveFile, ClassificationRule, RuleMatcher, RuleAction, AnalysisResult } from '../types';
+import { renderTemplate, getFileTemplateValues } from './nameTemplate';
+
+export interface RuleOutcome {
+  matchedRules: string[];
+  action: RuleAction;
+  // Category, path and sensitivity are all set, so the model has nothing left to decide
+  fullyDecided: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const matchesMimeType = (pattern: string, mimeType: string): boolean => {
+  const p = pattern.trim().toLowerCase();
+  const type = mimeType.toLowerCase();
+  return p.endsWith('*') ? type.startsWith(p.slice(0, -1)) : type === p;
+};
+
+const matches = (matcher: RuleMatcher, file: DriveFile, now: number): boolean => {
+  if (matcher.nameRegex) {
+    try {
+      if (!new RegExp(matcher.nameRegex, 'i').test(file.name)) return false;
+    } catch {
+      return false; // Invalid patterns never match; the editor flags them
+    }
+  }
+  if (matcher.mimeType && !matchesMimeType(matcher.mimeType, file.type)) return false;
+  if (matcher.parentFolder) {
+    if ((file.parentFolderName || '').toLowerCase() !== matcher.parentFolder.trim().toLowerCase()) return false;
+  }
+
+  const sizeKb = file.size / 1024;
+  if (matcher.minSizeKb !== undefined && sizeKb < matcher.minSizeKb) return false;
+  if (matcher.maxSizeKb !== undefined && sizeKb > matcher.maxSizeKb) return false;
+
+  const ageDays = (now - file.lastModified) / DAY_MS;
+  if (matcher.minAgeDays !== undefined && ageDays < matcher.minAgeDays) return false;
+  if (matcher.maxAgeDays !== undefined && ageDays > matcher.maxAgeDays) return false;
+
+  return true;
+};
+
+// Generic over the key so the copied value keeps that field's type
+const copyField = <K extends keyof RuleAction>(target: RuleAction, source: RuleAction, key: K) => {
+  target[key] = source[key];
+};
+
+/**
+ * Runs the ordered rule list against a file. Every matching rule contributes the fields
+ * that earlier rules have not set yet, so the first match wins for each field.
+ */
+export const evaluateRules = (file: DriveFile, rules: ClassificationRule[], now = Date.now()): RuleOutcome | null => {
+  const action: RuleAction = {};
+  const matchedRules: string[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled || !matches(rule.match, file, now)) continue;
+
+    let contributed = false;
+    (Object.keys(rule.action) as (keyof RuleAction)[]).forEach(key => {
+      const value = rule.action[key];
+      if (value && action[key] === undefined) {
+        copyField(action, rule.action, key);
+        contributed = true;
+      }
+    });
+    if (contributed) matchedRules.push(rule.name);
+  }
+
+  if (matchedRules.length === 0) return null;
+
+  return {
+    matchedRules,
+    action,
+    fullyDecided: !!(action.category && action.path && action.sensitivity)
+  };
+};
+
+/**
+ * Builds the final suggestion for a file that the rules decided on their own.
+ */
+export const buildRuleResult = (file: DriveFile, outcome: RuleOutcome): AnalysisResult => {
+  const values = getFileTemplateValues(file);
+  return {
+    fileId: file.id,
+    category: outcome.action.category!,
+    suggestedPath: renderTemplate(outcome.action.path!, values),
+    suggestedName: outcome.action.renameTemplate ? renderTemplate(outcome.action.renameTemplate, values) : file.name,
+    shouldArchive: false,
+    sensitivity: outcome.action.sensitivity!,
+    reasoning: `Classified by rule: ${outcome.matchedRules.join(', ')}`,
+    confidence: 1,
+    source: 'rule',
+    matchedRules: outcome.matchedRules
+  };
+};
+
+/**
+ * Overrides the model's suggestion with the fields fixed by rules.
+ */
+export const applyRuleOverrides = (file: DriveFile, result: AnalysisResult, outcome: RuleOutcome): AnalysisResult => {
+  const values = getFileTemplateValues(file);
+  const { category, path, renameTemplate, sensitivity } = outcome.action;
+  return {
+    ...result,
+    category: category || result.category,
+    suggestedPath: path ? renderTemplate(path, values) : result.suggestedPath,
+    suggestedName: renameTemplate ? renderTemplate(renameTemplate, values) : result.suggestedName,
+    sensitivity: sensitivity || result.sensitivity,
+    source: 'model+rule',
+    matchedRules: outcome.matchedRules
+  };
+};
+
+/**
+ * Describes the fixed fields so the model can stay consistent with them (e.g. pick a path
+ * inside the category a rule chose).
+ */
+export const describeRuleConstraints = (file: DriveFile, outcome: RuleOutcome): string => {
+  const values = getFileTemplateValues(file);
+  const parts: string[] = [];
+  if (outcome.action.category) parts.push(`category = ${outcome.action.category}`);
+  if (outcome.action.path) parts.push(`path = ${renderTemplate(outcome.action.path, values)}`);
+  if (outcome.action.renameTemplate) parts.push(`name = ${renderTemplate(outcome.action.renameTemplate, values)}`);
+  if (outcome.action.sensitivity) parts.push(`sensitivity = ${outcome.action.sensitivity}`);
+  return parts.join(', ');
+};
+
+/**
+ * Returns a list of problems in the rule list (e.g. regexes that do not compile).
+ */
+export const validateRules = (rules: ClassificationRule[]): string[] => {
+  const errors: string[] = [];
+  for (const rule of rules) {
+    if (!rule.name.trim()) errors.push("Every rule needs a name.");
+    if (rule.match.nameRegex) {
+      try {
+        new RegExp(rule.match.nameRegex);
+      } catch {
+        errors.push(`Rule "${rule.name}": invalid name pattern.`);
+      }
+    }
+    const hasAction = Object.values(rule.action).some(v => !!v);
+    if (!hasAction) errors.push(`Rule "${rule.name}" does not set anything.`);
+  }
+  return errors;
+};
@@ -0,0 +1,35 @@
+import { PersistedSession } from '../types';
+import { STORES, idbGet, idbPut, idbDelete } from './indexedDb';
+
+// Only one batch is active at a time, so the session is stored under a fixed key
+const CURRENT_SESSION_ID = 'current';
+
+export const loadSession = async (): Promise<PersistedSession | null> => {
+  try {
+    const session = await idbGet<PersistedSession>(STORES.SESSIONS, CURRENT_SESSION_ID);
+    return session && session.files.length > 0 ? session : null;
+  } catch (err) {
+    console.warn("Could not load saved session", err);
+    return null;
+  }
+};
+
+export const saveSession = async (session: Omit<PersistedSession, 'id' | 'updatedAt'>): Promise<void> => {
+  try {
+    await idbPut<PersistedSession>(STORES.SESSIONS, {
+      ...session,
+      id: CURRENT_SESSION_ID,
+      updatedAt: Date.now()
+    });
+  } catch (err) {
+    console.warn("Could not save session", err);
+  }
+};
+
+export const clearSession = async (): Promise<void> => {
+  try {
+    await idbDelete(STORES.SESSIONS, CURRENT_SESSION_ID);
+  } catch (err) {
+    console.warn("Could not clear session", err);
+  }
+};
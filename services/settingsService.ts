@@ -0,0 +1,53 @@
+import { AppSettings } from '../types';
+import { DEFAULT_TAXONOMY } from './taxonomyService';
+
+const STORAGE_KEY = 'organizer_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  analysis: {
+    chunkSize: 20,
+    concurrency: 2,
+    maxRetries: 3
+  },
+  taxonomy: DEFAULT_TAXONOMY,
+  rules: [],
+  provider: {
+    provider: 'gemini',
+    model: '',
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: ''
+  },
+  metadata: {
+    writeAppProperties: true,
+    writeDescription: false,
+    skipPreviouslyClassified: false
+  }
+};
+
+/**
+ * Reads settings from localStorage, filling any missing section with its defaults
+ * so that settings saved by older versions keep working.
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      analysis: { ...DEFAULT_SETTINGS.analysis, ...stored.analysis },
+      taxonomy: stored.taxonomy?.length ? stored.taxonomy : DEFAULT_TAXONOMY,
+      rules: stored.rules || [],
+      provider: { ...DEFAULT_SETTINGS.provider, ...stored.provider },
+      metadata: { ...DEFAULT_SETTINGS.metadata, ...stored.metadata }
+    };
+  } catch (err) {
+    console.warn("Could not read settings", err);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,93 @@
+import { AppliedPermissionChange, DrivePermission, SensitivityLevel, SharingAudit, SharingRemediation, SharingRisk } from '../types';
+
+// Only these files get their permissions fetched and checked
+export const AUDITED_SENSITIVITIES: SensitivityLevel[] = ['Confidential', 'High Risk'];
+
+// Every account on these domains is a separate person, so sharing within the domain is still external
+const CONSUMER_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+const EDITOR_ROLES = ['writer', 'fileOrganizer', 'organizer'];
+
+export const SHARING_RISK_LABELS: Record<SharingRisk, string> = {
+  'public': 'Anyone with the link',
+  'external-domain': 'Shared with another organization',
+  'external-editor': 'Outside account can edit',
+  'external': 'Outside account can view'
+};
+
+const ROLE_LABELS: Record<DrivePermission['role'], string> = {
+  owner: 'owner',
+  organizer: 'manager',
+  fileOrganizer: 'content manager',
+  writer: 'editor',
+  commenter: 'commenter',
+  reader: 'viewer'
+};
+
+const domainOf = (email = '') => email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+
+/**
+ * Classifies a single grant from the point of view of the signed-in account.
+ * Returns null for grants inside the account's own organization.
+ */
+export const getPermissionRisk = (permission: DrivePermission, accountEmail: string): SharingRisk | null => {
+  const ownDomain = domainOf(accountEmail);
+  const isConsumer = CONSUMER_DOMAINS.includes(ownDomain);
+
+  if (permission.type === 'anyone') return 'public';
+  if (permission.type === 'domain') {
+    return !isConsumer && permission.domain?.toLowerCase() === ownDomain ? null : 'external-domain';
+  }
+
+  const email = permission.emailAddress?.toLowerCase();
+  const internal = isConsumer ? email === accountEmail.toLowerCase() : domainOf(email) === ownDomain;
+  if (internal) return null;
+  return EDITOR_ROLES.includes(permission.role) ? 'external-editor' : 'external';
+};
+
+/**
+ * Flags the risky grants of a file and proposes a fix for every one that can be changed on the file itself: public and
+ * cross-organization links are removed, outside editors are downgraded to viewer.
+ * Owners and grants inherited from a folder or shared drive are only reported.
+ */
+export const assessSharing = (permissions: DrivePermission[], accountEmail: string): SharingAudit => {
+  const risks: Record<string, SharingRisk> = {};
+  const remediations: SharingRemediation[] = [];
+  for (const permission of permissions) {
+    const risk = getPermissionRisk(permission, accountEmail);
+    if (!risk) continue;
+    risks[permission.id] = risk;
+    if (permission.role === 'owner' || permission.inherited) continue;
+    if (risk === 'public' || risk === 'external-domain') {
+      remediations.push({ permissionId: permission.id, action: 'remove', risk, enabled: true });
+    } else if (risk === 'external-editor') {
+      remediations.push({ permissionId: permission.id, action: 'downgrade', risk, enabled: true });
+    }
+  }
+  return { permissions, risks, remediations };
+};
+
+export const describeGrantee = (permission: DrivePermission): string => {
+  if (permission.type === 'anyone') return 'Anyone with the link';
+  if (permission.type === 'domain') return `Anyone at ${permission.domain}`;
+  return permission.displayName && permission.emailAddress
+    ? `${permission.displayName} <${permission.emailAddress}>`
+    : permission.emailAddress || permission.displayName || permission.id;
+};
+
+export const getRoleLabel = (role: DrivePermission['role']): string => ROLE_LABELS[role] || role;
+
+export const describeRemediation = (action: SharingRemediation['action'], permission: DrivePermission): string =>
+  action === 'remove'
+    ? `Remove ${describeGrantee(permission)} (${getRoleLabel(permission.role)})`
+    : `Downgrade ${describeGrantee(permission)} from ${getRoleLabel(permission.role)} to viewer`;
+
+// Past-tense wording for the audit log
+export const describeAppliedChange = (change: AppliedPermissionChange, reverted = false): string => {
+  const grantee = describeGrantee(change.original);
+  const role = getRoleLabel(change.original.role);
+  if (reverted) return `Restored ${grantee} as ${role}`;
+  return change.action === 'remove'
+    ? `Removed ${grantee} (${role})`
+    : `Downgraded ${grantee} from ${role} to viewer`;
+};
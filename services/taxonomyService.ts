@@ -0,0 +1,60 @@
+import { CategoryDefinition } from '../types';
+
+export const DEFAULT_TAXONOMY: CategoryDefinition[] = [
+  { id: 'work', name: 'Work', description: 'Professional documents, projects, meetings and client material.', color: 'blue', icon: 'briefcase', prefix: 1 },
+  { id: 'personal', name: 'Personal', description: 'Personal life, family, health, travel and household documents.', color: 'green', icon: 'user', prefix: 2 },
+  { id: 'finance', name: 'Finance', description: 'Invoices, receipts, bank statements, taxes and budgets.', color: 'emerald', icon: 'dollar', prefix: 3 },
+  { id: 'legal', name: 'Legal', description: 'Contracts, agreements, identity documents and legal correspondence.', color: 'red', icon: 'shield', prefix: 4 },
+  { id: 'photos_videos', name: 'Photos_Videos', description: 'Photos, videos and other personal media.', color: 'purple', icon: 'image', prefix: 5 },
+  { id: 'learning', name: 'Learning', description: 'Courses, notes, research papers and reference material.', color: 'yellow', icon: 'graduation', prefix: 6 },
+  { id: 'templates', name: 'Templates', description: 'Reusable templates, forms and boilerplate.', color: 'gray', icon: 'layout', prefix: 7 },
+  { id: 'archive', name: 'Archive', description: 'Completed, obsolete or reference-only material.', color: 'slate', icon: 'archive', prefix: 99, isArchive: true },
+];
+
+/**
+ * Folder name used on Drive and as the category value in analysis results, e.g. "03_Finance".
+ */
+export const getCategoryLabel = (category: CategoryDefinition): string => {
+  const name = category.name.trim().replace(/\s+/g, '_');
+  return `${String(category.prefix).padStart(2, '0')}_${name}`;
+};
+
+// Human-facing name without the numeric prefix
+export const getCategoryDisplayName = (label: string): string => {
+  return label.replace(/^\d+_/, '').replace(/_/g, ' ');
+};
+
+export const findCategory = (taxonomy: CategoryDefinition[], label?: string): CategoryDefinition | undefined => {
+  if (!label) return undefined;
+  return taxonomy.find(c => getCategoryLabel(c) === label);
+};
+
+export const getArchiveCategory = (taxonomy: CategoryDefinition[]): CategoryDefinition | undefined => {
+  return taxonomy.find(c => c.isArchive);
+};
+
+/**
+ * Returns a list of problems that would make the taxonomy unusable for classification.
+ */
+export const validateTaxonomy = (taxonomy: CategoryDefinition[]): string[] => {
+  const errors: string[] = [];
+  if (taxonomy.length === 0) errors.push("At least one category is required.");
+
+  const labels = new Set<string>();
+  for (const category of taxonomy) {
+    if (!category.name.trim()) {
+      errors.push("Every category needs a name.");
+      continue;
+    }
+    if (/[\/\\]/.test(category.name)) {
+      errors.push(`"${category.name}" must not contain slashes.`);
+    }
+    const label = getCategoryLabel(category);
+    if (labels.has(label)) errors.push(`Duplicate category "${label}".`);
+    labels.add(label);
+  }
+  if (taxonomy.filter(c => c.isArchive).length > 1) {
+    errors.push("Only one category can be the archive.");
+  }
+  return errors;
+};
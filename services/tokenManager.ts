@@ -0,0 +1,127 @@
+const SCOPES = 'https://www.googleapis.com/auth/drive';
+
+// Refresh this long before the token expires so in-flight requests never carry a stale token
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// '' only shows a popup when Google needs the user (first grant, signed out); 'consent' always asks
+export type TokenPrompt = '' | 'consent';
+
+let tokenClient: any;
+let expiresAt = 0;
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+// Shared by every caller while a token request is open, so a burst of 401s triggers one sign-in
+let pendingRequest: Promise<void> | null = null;
+// Callers of reauthenticate, waiting for the user to click Reconnect
+let reconnectWaiters: { resolve: () => void; reject: (err: unknown) => void }[] = [];
+let reconnectListener: ((needed: boolean) => void) | null = null;
+
+export const initTokenClient = (clientId: string) => {
+  tokenClient = window.google.accounts.oauth2.initTokenClient({
+    client_id: clientId,
+    scope: SCOPES,
+    callback: () => {}, // Replaced per request in requestToken
+  });
+};
+
+// Shows the Reconnect prompt; a click on it runs reconnect()
+const promptReconnect = () => reconnectListener?.(true);
+
+const scheduleRefresh = (expiresInSeconds: number) => {
+  expiresAt = Date.now() + expiresInSeconds * 1000;
+  clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(() => {
+    requestToken('').catch(err => {
+      // Google needs the user (e.g. signed out): ask before the token runs out and requests start failing
+      console.warn("Silent token refresh failed", err);
+      promptReconnect();
+    });
+  }, Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN_MS));
+};
+
+/**
+ * Asks GIS for a new access token and hands it to gapi.client.
+ * Concurrent calls share the same request.
+ */
+export const requestToken = (prompt: TokenPrompt): Promise<void> => {
+  if (pendingRequest) return pendingRequest;
+
+  pendingRequest = new Promise<void>((resolve, reject) => {
+    if (!tokenClient) return reject(new Error("Token Client not initialized"));
+
+    tokenClient.callback = (resp: any) => {
+      if (resp.error) {
+        reject(resp);
+        return;
+      }
+      // The GIS library does NOT set the token for gapi automatically
+      if (resp.access_token) {
+        window.gapi.client.setToken(resp);
+        scheduleRefresh(Number(resp.expires_in) || 3600);
+        resolve();
+      } else {
+        reject(new Error("No access token received"));
+      }
+    };
+    // Closing the popup or a blocked popup never reaches the callback above
+    tokenClient.error_callback = (err: any) => reject(err);
+
+    tokenClient.requestAccessToken({ prompt });
+  }).finally(() => {
+    pendingRequest = null;
+  });
+
+  return pendingRequest;
+};
+
+/**
+ * Registers the UI that asks the user to reconnect; it is told when a prompt is needed and when it is done.
+ */
+export const setReconnectListener = (listener: ((needed: boolean) => void) | null) => {
+  reconnectListener = listener;
+};
+
+const settleReconnect = (err?: unknown) => {
+  const waiters = reconnectWaiters;
+  reconnectWaiters = [];
+  waiters.forEach(w => err ? w.reject(err) : w.resolve());
+  reconnectListener?.(false);
+};
+
+/**
+ * Called when Drive answers 401: the token expired or was revoked. Tries a silent refresh first;
+ * if Google needs the user, asks them to reconnect (browsers block the popup outside a click)
+ * and resolves once they have.
+ */
+export const reauthenticate = async (): Promise<void> => {
+  try {
+    await requestToken('');
+    return;
+  } catch (err) {
+    console.warn("Silent re-authentication failed, asking the user to reconnect", err);
+  }
+  if (!reconnectListener) throw new Error("Session expired. Please reconnect.");
+  const waiting = new Promise<void>((resolve, reject) => reconnectWaiters.push({ resolve, reject }));
+  promptReconnect();
+  return waiting;
+};
+
+/**
+ * Gets a new token after the silent refresh failed, for the requests waiting in reauthenticate.
+ * Must run from a click handler. A failed attempt leaves them waiting, so the user can try again.
+ */
+export const reconnect = async (): Promise<void> => {
+  await requestToken('');
+  settleReconnect();
+};
+
+// The user declined to reconnect: the waiting requests fail with their 401
+export const cancelReconnect = () => {
+  settleReconnect(new Error("Reconnect cancelled"));
+};
+
+export const clearToken = () => {
+  clearTimeout(refreshTimer);
+  expiresAt = 0;
+  if (reconnectWaiters.length > 0) cancelReconnect();
+  window.gapi?.client?.setToken(null);
+};
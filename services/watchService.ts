@@ -0,0 +1,93 @@
+import { DriveInfo, DriveWatch, SyncJournalEntry } from '../types';
+import { getChangesStartToken, listChangedFiles, getDriveBackend, withParentFolderNames } from './driveService';
+import { loadJournals } from './journalService';
+
+const STORAGE_KEY = 'drive_watches';
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// Drive may stamp modifiedTime slightly after the write returned
+const OWN_CHANGE_MARGIN_MS = 5 * 60 * 1000;
+
+// Tokens of the demo drive and of Google Drive are not interchangeable
+const watchKey = (driveId?: string) => `${getDriveBackend().kind}:${driveId || 'root'}`;
+
+const loadWatches = (): DriveWatch[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (err) {
+    console.warn("Could not read drive watches", err);
+    return [];
+  }
+};
+
+const saveWatch = (watch: DriveWatch): void => {
+  const others = loadWatches().filter(w => w.key !== watch.key);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([watch, ...others]));
+};
+
+export const getWatch = (driveId?: string): DriveWatch | null => {
+  const key = watchKey(driveId);
+  return loadWatches().find(w => w.key === key) || null;
+};
+
+/**
+ * Remembers the current end of the drive's Changes feed; the next run picks up everything after it.
+ */
+export const startWatching = async (drive: DriveInfo): Promise<DriveWatch> => {
+  const driveId = drive.isShared ? drive.id : undefined;
+  const watch: DriveWatch = {
+    key: watchKey(driveId),
+    driveId,
+    driveName: drive.name,
+    pageToken: await getChangesStartToken(driveId),
+    startedAt: Date.now()
+  };
+  saveWatch(watch);
+  return watch;
+};
+
+export const stopWatching = (driveId?: string): void => {
+  const key = watchKey(driveId);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(loadWatches().filter(w => w.key !== key)));
+};
+
+// A change is the app's own when the file still looks exactly as a sync or revert left it
+const isOwnChange = (file: any, entries: SyncJournalEntry[]): boolean =>
+  entries.some(e => {
+    if (e.fileId !== file.id || !e.changedAt) return false;
+    if (Date.parse(file.modifiedTime) > e.changedAt + OWN_CHANGE_MARGIN_MS) return false;
+    if (e.status === 'applied') {
+      return file.name === e.newName && (!e.targetFolderId || !!file.parents?.includes(e.targetFolderId));
+    }
+    if (e.status === 'reverted') {
+      return file.name === e.originalName && e.originalParents.every(p => file.parents?.includes(p));
+    }
+    return false;
+  });
+
+/**
+ * Files created or modified in the watched drive since the last run, without folders, trashed
+ * items and the app's own renames and moves.
+ * @returns The files and the token to store once they have been handed to a review batch
+ */
+export const collectNewFiles = async (watch: DriveWatch): Promise<{ files: any[]; nextToken: string; ownChanges: number }> => {
+  const { files, newStartPageToken } = await listChangedFiles(watch.pageToken, watch.driveId);
+  const entries = loadJournals().flatMap(j => j.entries);
+
+  // A file changed several times appears once per change; the last one holds its current state
+  const latest = Array.from(new Map(files.map(f => [f.id, f])).values());
+  const candidates = latest.filter(f => f.mimeType !== FOLDER_MIME_TYPE && !f.trashed);
+  const fresh = candidates.filter(f => !isOwnChange(f, entries));
+  return {
+    files: await withParentFolderNames(fresh, watch.driveId, watch.driveName),
+    nextToken: newStartPageToken,
+    ownChanges: candidates.length - fresh.length
+  };
+};
+
+export const completeWatchRun = (watch: DriveWatch, nextToken: string): DriveWatch => {
+  const next = { ...watch, pageToken: nextToken, lastRunAt: Date.now() };
+  saveWatch(next);
+  return next;
+};
@@ -5,19 +5,39 @@ export enum AppState {
   COMPLETED = 'COMPLETED'
 }
 
-export enum FileCategory {
-  WORK = '01_Work',
-  PERSONAL = '02_Personal',
-  FINANCE = '03_Finance',
-  LEGAL = '04_Legal',
-  PHOTOS_VIDEOS = '05_Photos_Videos',
-  LEARNING = '06_Learning',
-  TEMPLATES = '07_Templates',
-  ARCHIVE = '99_Archive'
+export type CategoryColor = 'blue' | 'green' | 'emerald' | 'red' | 'purple' | 'yellow' | 'orange' | 'pink' | 'cyan' | 'indigo' | 'gray' | 'slate';
+
+export type CategoryIcon = 'briefcase' | 'user' | 'dollar' | 'shield' | 'image' | 'graduation' | 'layout' | 'archive' | 'users' | 'code' | 'folder' | 'heart' | 'building';
+
+/**
+ * One top-level category of the user's taxonomy.
+ * Its folder name (and the value the model returns) is `{prefix}_{name}`, e.g. "03_Finance".
+ */
+export interface CategoryDefinition {
+  id: string;
+  name: string;
+  description: string;
+  color: CategoryColor;
+  icon: CategoryIcon;
+  prefix: number;
+  isArchive?: boolean; // Target of archival decisions
+  nameTemplate?: string; // Naming convention for files in this category, e.g. "{YYYY-MM-DD} {Counterparty} - {Doc type}.{ext}"
 }
 
 export type SensitivityLevel = 'Normal' | 'Confidential' | 'High Risk';
 
+export type PiiDetectorId = 'ssn' | 'credit_card' | 'iban' | 'api_key' | 'private_key' | 'password' | 'email';
+
+export interface PiiFinding {
+  detector: PiiDetectorId;
+  count: number;
+}
+
+export interface ImageAttachment {
+  mimeType: string;
+  data: string; // Base64 without the data: URL prefix
+}
+
 export interface DriveFile {
   id: string;
   name: string;
@@ -29,20 +49,257 @@ export interface DriveFile {
   webViewLink?: string;
   iconLink?: string;
   parents?: string[]; // Required to move files (we need to know current parent to remove it)
+  parentFolderName?: string; // Name of the folder the file was found in (used by classification rules)
+  md5Checksum?: string; // Only available for binary files stored in Drive
+  image?: ImageAttachment; // Downscaled image or scanned page sent to the model alongside the text
+  piiFindings?: PiiFinding[]; // Set by the local scanner; contentSnippet and child names are already redacted
+  redactedName?: string; // The name with the values the scanner found redacted; sent to the model instead
+  piiSensitivity?: SensitivityLevel; // Minimum sensitivity implied by the findings
+  driveId?: string; // Shared drive holding the file; unset for My Drive
+  capabilities?: FileCapabilities; // What the signed-in user may do with the file (from Drive)
+  description?: string; // Drive description, kept so a sync only appends to it
+  previousClassification?: PreviousClassification; // Read back from appProperties written by an earlier sync
+  appProperties?: Record<string, string>; // As read from Drive, kept so a revert can put them back
+  isFolder?: boolean; // Analyzed as a unit: the proposal renames, moves or archives the whole folder
+  folderSummary?: FolderSummary; // Folders only; contentSnippet then holds samples of child content
+}
+
+// Direct children of a folder analyzed as a unit
+export interface FolderSummary {
+  fileCount: number;
+  folderCount: number;
+  childNames: string[]; // A sample of names; subfolders end with "/"
+}
+
+// Existing folder paths of a drive, e.g. ["03_Finance", "03_Finance/Tax"], as listed by getFolderIndex
+export interface FolderIndex {
+  paths: string[];
+  truncatedAt?: number; // First depth not listed in full (size limits); folders from there on are unknown
+}
+
+export type PermissionRole = 'owner' | 'organizer' | 'fileOrganizer' | 'writer' | 'commenter' | 'reader';
+
+// A sharing grant on a Drive file, as returned by permissions.list
+export interface DrivePermission {
+  id: string;
+  type: 'user' | 'group' | 'domain' | 'anyone';
+  role: PermissionRole;
+  emailAddress?: string; // user and group grants
+  domain?: string; // domain grants
+  displayName?: string;
+  allowFileDiscovery?: boolean; // anyone / domain grants: findable through search, not only by link
+  inherited?: boolean; // Granted on a parent folder or shared drive; cannot be removed on the file itself
+}
+
+export type SharingRisk = 'public' | 'external-domain' | 'external-editor' | 'external';
+
+// A proposed change to one permission, applied on sync like a rename
+export interface SharingRemediation {
+  permissionId: string;
+  action: 'remove' | 'downgrade'; // downgrade sets the role to reader
+  risk: SharingRisk;
+  enabled: boolean; // Unticked by the reviewer: kept in the list but not applied
+}
+
+export interface SharingAudit {
+  permissions: DrivePermission[];
+  risks: Record<string, SharingRisk>; // By permission id; grants inside the organization are absent
+  remediations: SharingRemediation[];
+  error?: string; // Permissions could not be read (e.g. the user may not see them)
+}
+
+// Classification stored on a Drive file by an earlier sync
+export interface PreviousClassification {
+  category: string;
+  sensitivity?: SensitivityLevel;
+  analyzedAt: string; // ISO date
+  model?: string;
+  promptVersion?: string;
+}
+
+export interface FileCapabilities {
+  canRename?: boolean;
+  canMoveItemWithinDrive?: boolean;
+  canMoveItemOutOfDrive?: boolean;
+}
+
+// My Drive (id 'root') or a shared drive
+export interface DriveInfo {
+  id: string;
+  name: string;
+  isShared: boolean;
+}
+
+// Facts the model read from the content; they fill the placeholders of category naming templates
+export interface ExtractedFields {
+  documentDate?: string; // YYYY-MM-DD, only when the content states it
+  counterparty?: string; // The other party: vendor, bank, employer, client or authority
+  docType?: string; // e.g. "Invoice", "Bank statement"
+  title?: string; // Short subject, e.g. "Kitchen renovation"
 }
 
 export interface AnalysisResult {
   fileId: string;
-  category: FileCategory;
+  category: string; // Folder name of a CategoryDefinition, e.g. "03_Finance"
   suggestedPath: string;
   suggestedName: string;
   shouldArchive: boolean;
   sensitivity: SensitivityLevel;
   reasoning: string;
   confidence: number;
+  fields?: ExtractedFields;
+  source?: 'model' | 'rule' | 'model+rule'; // Who decided the suggestion
+  matchedRules?: string[]; // Names of the classification rules that matched
+  duplicateOf?: string; // Id of the file kept from the same duplicate group
+  edited?: boolean; // A person changed the suggestion during review
+}
+
+// Found by the pre-sync name check; only applies while the suggestion still has this name and path
+export interface NameConflict {
+  name: string;
+  path: string;
+  conflictsWith: string; // The other file that would end up with the same name in the same folder
+  source: 'batch' | 'drive'; // Another file of this batch, or a file already in the target folder
+  suggestion: string; // A free name in that folder, e.g. "Invoice (2).pdf"
 }
 
 export interface ProcessedFile extends DriveFile {
   analysis?: AnalysisResult;
+  sharing?: SharingAudit; // Fetched for Confidential and High Risk Drive files
+  nameConflict?: NameConflict;
   status: 'pending' | 'approved' | 'rejected' | 'synced' | 'error';
+  error?: string; // Why analysis or sync failed for this file
+}
+
+export interface PersistedSession {
+  id: string;
+  updatedAt: number;
+  appState: AppState;
+  sourceMode: 'upload' | 'drive';
+  files: ProcessedFile[];
+  syncInProgress: boolean;
+  journalId?: string; // Journal of the sync run that was in progress
+}
+
+export interface RuleMatcher {
+  nameRegex?: string;    // Tested case-insensitively against the file name
+  mimeType?: string;     // Exact type, or a prefix ending in '*' (e.g. "image/*")
+  parentFolder?: string; // Name of the containing folder (case-insensitive)
+  minSizeKb?: number;
+  maxSizeKb?: number;
+  minAgeDays?: number;   // Based on the last modified date
+  maxAgeDays?: number;
+}
+
+export interface RuleAction {
+  category?: string;       // Category label, e.g. "03_Finance"
+  path?: string;           // May contain date placeholders, e.g. "03_Finance/Invoices/{YYYY}"
+  renameTemplate?: string; // e.g. "{YYYY-MM-DD} {basename}.{ext}"
+  sensitivity?: SensitivityLevel;
+}
+
+export interface ClassificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: RuleMatcher;
+  action: RuleAction;
+}
+
+export type LlmProviderId = 'gemini' | 'openai-compatible';
+
+export interface ProviderSettings {
+  provider: LlmProviderId;
+  model: string;   // Empty means the provider's default model
+  baseUrl: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  apiKey: string;  // OpenAI-compatible servers only; Gemini uses the session key
+}
+
+export interface AnalysisSettings {
+  chunkSize: number;   // Files sent to the model per request
+  concurrency: number; // Chunks in flight at the same time
+  maxRetries: number;  // Retries per chunk on 429/5xx
+}
+
+// What a sync writes to Drive besides the new name and location
+export interface MetadataSettings {
+  writeAppProperties: boolean; // category, sensitivity, analyzedAt, model and prompt version
+  writeDescription: boolean; // Short summary appended to the file description
+  skipPreviouslyClassified: boolean; // Leave files that carry earlier appProperties out of new batches
+}
+
+export interface AppSettings {
+  analysis: AnalysisSettings;
+  taxonomy: CategoryDefinition[];
+  rules: ClassificationRule[];
+  provider: ProviderSettings;
+  metadata: MetadataSettings;
+}
+
+export interface CreatedFolder {
+  id: string;
+  path: string;
+  driveId?: string; // Shared drive the folder was created in; unset for My Drive
+}
+
+export interface SyncJournalEntry {
+  fileId: string;
+  originalName: string;
+  originalParents: string[];
+  newName: string;
+  targetPath?: string;
+  targetFolderId?: string;
+  originalDescription?: string;
+  originalAppProperties?: Record<string, string>; // This app's properties before the sync; absent when it had none
+  wroteAppProperties?: boolean; // Revert restores originalAppProperties
+  wroteDescription?: boolean; // Revert restores originalDescription
+  permissionChanges?: AppliedPermissionChange[];
+  changedAt?: number; // When the sync (or the revert) wrote the file, so the changes feed can skip it
+  status: 'pending' | 'applied' | 'failed' | 'reverted';
+}
+
+// A sharing remediation applied by a sync, with the grant as it was so revert can restore it
+export interface AppliedPermissionChange {
+  action: SharingRemediation['action'];
+  original: DrivePermission;
+  reverted?: boolean;
+}
+
+export interface SyncJournal {
+  id: string;
+  createdAt: number;
+  entries: SyncJournalEntry[];
+  createdFolders: CreatedFolder[]; // Folders created by ensureFolderPath during this run
+  status: 'in_progress' | 'completed' | 'reverted' | 'revert_failed';
+}
+
+// A drive watched through the Changes feed; the token marks the end of the previous run
+export interface DriveWatch {
+  key: string; // Backend kind and drive id
+  driveId?: string; // Shared drive; unset for My Drive
+  driveName: string;
+  pageToken: string;
+  startedAt: number;
+  lastRunAt?: number;
+}
+
+// One change made to Drive. Written once and never updated, so the log can back a compliance sign-off.
+export interface AuditLogEntry {
+  seq?: number; // Assigned by IndexedDB
+  timestamp: number;
+  action: 'sync' | 'sharing' | 'revert';
+  account: string; // Email of the Google account that made the change
+  journalId: string; // Sync run the change belongs to
+  fileId: string;
+  oldName: string;
+  newName: string;
+  oldParents: string[];
+  newParents: string[];
+  newPath?: string; // Folder path the file was moved to (sync only)
+  category?: string;
+  sensitivity?: SensitivityLevel;
+  reasoning?: string;
+  decidedBy?: 'model' | 'rule' | 'model+rule';
+  humanEdited: boolean;
+  permissionChanges?: string[]; // e.g. "Removed public link (reader)"
 }